@@ -11,16 +11,24 @@ import Inventory from './pages/Inventory';
 import Marketing from './pages/Marketing';
 import Reconciliation from './pages/Reconciliation'; 
 import TcsDebug from './pages/TcsDebug'; 
+import StatusMappings from './pages/StatusMappings';
+import NdrQueue from './pages/NdrQueue';
+import Remittances from './pages/Remittances';
+import ShipmentAging from './pages/ShipmentAging';
 import Auth from './pages/Auth'; 
-import { PostExAdapter } from './services/couriers/postex';
-import { TcsAdapter } from './services/couriers/tcs';
-import { DaewooAdapter } from './services/couriers/daewoo';
-import { ShopifyAdapter } from './services/shopify'; 
-import { Order, Product, AdSpend, CourierName, SalesChannel, CourierConfig, OrderStatus, ShopifyOrder, IntegrationConfig, PaymentStatus } from './types';
+import { CourierConfigMap, buildCourierConfigMap, getConfiguredCouriers, resolveCourier, getCourierAdapter } from './services/couriers/registry';
+import { SHOPIFY_HISTORY_DAYS } from './services/syncJob';
+import { loadOrders, loadShopifyOrders, saveOrders } from './services/orderStore';
+import { applyWarehouseStatus } from './services/orderSync';
+import { applyRemittances } from './services/remittance';
+import { calculateForwardFee, getOrderWeight } from './services/rateCards';
+import { CourierQuote, buildDeliveryRateIndex, quoteCouriers } from './services/rateShopping';
+import { StatusMappingIndex, buildStatusMappingIndex, applyStatusMappings, resolveMappedStatus, normalizeRawStatus } from './services/statusMappings';
+import { Order, Product, AdSpend, CourierName, SalesChannel, OrderStatus, PaymentStatus, ShopifyOrder, TrackingUpdate, BookingResult, StatusMapping, NdrAction, RemittanceRecord, CourierClaim, CourierTerminal, CourierSettlement } from './types';
 import { Loader2, AlertTriangle, X, Info } from 'lucide-react';
 import { supabase } from './services/supabase';
 import { getCostAtDate } from './services/calculator';
-import { COURIER_RATES, PACKAGING_COST_AVG } from './constants';
+import { COURIER_RATES, PACKAGING_COST_AVG, DEFAULT_SLA_DAYS } from './constants';
 
 const App: React.FC = () => {
   const [session, setSession] = useState<any>(null);
@@ -53,14 +61,25 @@ const App: React.FC = () => {
      packagingCost: PACKAGING_COST_AVG,
      overheadCost: 0,
      taxRate: 0,
-     adsTaxRate: 0
+     adsTaxRate: 0,
+     originCity: '',
+     slaDays: DEFAULT_SLA_DAYS
   });
   
   // Trigger to force re-fetch
   const [refreshTrigger, setRefreshTrigger] = useState(0);
 
-  // Integration Configs Cache (for manual tracking)
-  const [configs, setConfigs] = useState<{ tcs?: IntegrationConfig, postex?: IntegrationConfig, daewoo?: IntegrationConfig }>({});
+  // Integration Configs Cache (for manual tracking), keyed by CourierName
+  const [configs, setConfigs] = useState<CourierConfigMap>({});
+
+  // User-confirmed raw status -> OrderStatus mappings (override adapter defaults)
+  const [statusMappings, setStatusMappings] = useState<StatusMapping[]>([]);
+  const statusMappingIndex: StatusMappingIndex = useMemo(() => buildStatusMappingIndex(statusMappings), [statusMappings]);
+  // Courier statement lines accepted as paid; reapplied to orders on every load
+  const [remittances, setRemittances] = useState<RemittanceRecord[]>([]);
+  const [claims, setClaims] = useState<CourierClaim[]>([]);
+  // Daewoo books terminal to terminal; loaded when the Orders page first needs the destination picker
+  const [daewooTerminals, setDaewooTerminals] = useState<CourierTerminal[] | null>(null);
 
   // Inventory Alert Count (Items with 0 COGS)
   const inventoryAlertCount = useMemo(() => {
@@ -110,9 +129,34 @@ const App: React.FC = () => {
                 product_id: productDef ? productDef.id : item.product_id 
             };
         });
-        return { ...order, items: updatedItems };
+        // Product weights feed the rate-card slabs, so the forward fee follows them
+        const rateCard = settings.rates[order.courier] || settings.rates[CourierName.POSTEX];
+        const originCity = configs[order.courier]?.origin_city || settings.originCity;
+        const weightKg = getOrderWeight({ ...order, items: updatedItems }, currentProducts);
+        return { ...order, items: updatedItems, courier_fee: calculateForwardFee(rateCard, weightKg, originCity, order.customer_city) };
     });
-  }, []);
+  }, [settings, configs]);
+
+  // --- Rate shopping: quote every bookable courier for an unbooked order ---
+  const bookableCouriers = useMemo(() => getConfiguredCouriers(configs, 'canBook').map(c => c.name), [configs]);
+  const deliveryRates = useMemo(() => buildDeliveryRateIndex(orders), [orders]);
+
+  const handleQuoteCouriers = useCallback((order: Order): CourierQuote[] => {
+      const originCities: Partial<Record<CourierName, string>> = {};
+      bookableCouriers.forEach(c => { originCities[c] = configs[c]?.origin_city || settings.originCity; });
+      return quoteCouriers(order, bookableCouriers, { rates: settings.rates, originCities, products, deliveryRates });
+  }, [bookableCouriers, configs, settings, products, deliveryRates]);
+
+  useEffect(() => {
+    const daewoo = resolveCourier(CourierName.DAEWOO, configs);
+    if (currentPage !== 'orders' || !daewoo?.capabilities.canListTerminals || !daewoo.adapter.getTerminals || daewooTerminals) return;
+    daewoo.adapter.getTerminals(daewoo.config)
+      .then(terminals => setDaewooTerminals(terminals.sort((a, b) => a.name.localeCompare(b.name))))
+      .catch(e => {
+          setDaewooTerminals([]);
+          setError(prev => (prev ? prev + " | " : "") + "Daewoo Terminals: " + e.message);
+      });
+  }, [currentPage, configs, daewooTerminals]);
 
   // 2. Fetch Data when Session exists OR Demo Mode
   useEffect(() => {
@@ -139,7 +183,9 @@ const App: React.FC = () => {
             packagingCost: PACKAGING_COST_AVG,
             overheadCost: 0,
             taxRate: 0,
-            adsTaxRate: 0
+            adsTaxRate: 0,
+            originCity: '',
+            slaDays: DEFAULT_SLA_DAYS
         };
 
         if (!isDemoMode) {
@@ -150,7 +196,9 @@ const App: React.FC = () => {
                     packagingCost: settingsData.packaging_cost || PACKAGING_COST_AVG,
                     overheadCost: settingsData.overhead_cost || 0,
                     taxRate: settingsData.courier_tax_rate || 0,
-                    adsTaxRate: settingsData.ads_tax_rate || 0
+                    adsTaxRate: settingsData.ads_tax_rate || 0,
+                    originCity: settingsData.origin_city || '',
+                    slaDays: settingsData.sla_days || DEFAULT_SLA_DAYS
                 };
             }
         }
@@ -172,7 +220,8 @@ const App: React.FC = () => {
                     cost_history: p.cost_history || [],
                     group_id: p.group_id,
                     group_name: p.group_name,
-                    aliases: p.aliases || [] 
+                    aliases: p.aliases || [],
+                    weight_kg: p.weight_kg || undefined
                 }));
             }
         }
@@ -194,9 +243,7 @@ const App: React.FC = () => {
         }
 
         // D. Fetch Integrations
-        let postExConfig: IntegrationConfig | undefined;
-        let tcsConfig: IntegrationConfig | undefined;
-        let daewooConfig: IntegrationConfig | undefined;
+        let courierConfigs: CourierConfigMap = {};
         let shopifyConfig: SalesChannel | undefined;
         
         if (!isDemoMode) {
@@ -205,14 +252,108 @@ const App: React.FC = () => {
 
              const { data: courierData } = await supabase.from('integration_configs').select('*').eq('user_id', user.id).eq('is_active', true);
              if (courierData) {
-                postExConfig = courierData.find((c: any) => c.provider_id === CourierName.POSTEX);
-                tcsConfig = courierData.find((c: any) => c.provider_id === CourierName.TCS);
-                daewooConfig = courierData.find((c: any) => c.provider_id === CourierName.DAEWOO);
-                setConfigs({ tcs: tcsConfig, postex: postExConfig, daewoo: daewooConfig });
+                courierConfigs = buildCourierConfigMap(courierData);
+                setConfigs(courierConfigs);
+            }
+        }
+
+        // D2. Fetch Status Mappings
+        let fetchedMappings: StatusMapping[] = [];
+        if (!isDemoMode) {
+            const { data: mappingData } = await supabase.from('courier_status_mappings').select('*').eq('user_id', user.id);
+            if (mappingData) {
+                fetchedMappings = mappingData.map((m: any) => ({ id: m.id, courier: m.courier, raw_status: m.raw_status, status: m.status }));
+            }
+        }
+        setStatusMappings(fetchedMappings);
+
+        // D3. Fetch Reconciled Remittances
+        let fetchedRemittances: RemittanceRecord[] = [];
+        if (!isDemoMode) {
+            const { data: remittanceData } = await supabase.from('courier_remittances').select('*').eq('user_id', user.id);
+            if (remittanceData) {
+                fetchedRemittances = remittanceData.map((r: any) => ({
+                    id: r.id,
+                    courier: r.courier,
+                    tracking_number: r.tracking_number,
+                    statement_ref: r.statement_ref,
+                    settlement_date: r.settlement_date,
+                    cod_amount: Number(r.cod_amount) || 0,
+                    charges: r.charges !== null ? Number(r.charges) : undefined,
+                    net_amount: Number(r.net_amount) || 0
+                }));
+            }
+        }
+        setRemittances(fetchedRemittances);
+
+        // D4. Fetch Courier Claims
+        if (!isDemoMode) {
+            const { data: claimData } = await supabase.from('courier_claims').select('*').eq('user_id', user.id);
+            if (claimData) {
+                setClaims(claimData.map((c: any) => ({
+                    id: c.id,
+                    courier: c.courier,
+                    tracking_number: c.tracking_number,
+                    order_id: c.order_id,
+                    reason: c.reason,
+                    status: c.status,
+                    claim_amount: Number(c.claim_amount) || 0,
+                    settled_amount: c.settled_amount !== null ? Number(c.settled_amount) : undefined,
+                    reference: c.reference || undefined,
+                    notes: c.notes || undefined,
+                    raised_at: c.raised_at,
+                    resolved_at: c.resolved_at || undefined
+                })));
+            }
+        }
+
+        // D5. Fetch Stored Orders (api/sync pulls Shopify and the couriers into Supabase; the app only reads)
+        let storedOrders: Order[] = [];
+        if (!isDemoMode) {
+            try {
+                storedOrders = await loadOrders(supabase, user.id);
+            } catch (e: any) {
+                console.error("Stored Orders Error:", e);
+                setError((prev) => (prev ? prev + " | " : "") + e.message);
             }
         }
 
-        const anyActiveConfig = !!postExConfig || !!tcsConfig || !!daewooConfig || !!shopifyConfig;
+        // Apply the user's status mappings, then handover / RTO check-in, before costs, so RTO penalties follow the corrected status
+        const processOrders = (source: Order[], productList: Product[]): Order[] => applyRemittances(
+            applyStatusMappings(source, buildStatusMappingIndex(fetchedMappings)).map(applyWarehouseStatus),
+            fetchedRemittances
+        ).map(order => {
+            const rateCard = fetchedSettings.rates[order.courier] || fetchedSettings.rates[CourierName.POSTEX];
+            const isRto = order.status === OrderStatus.RETURNED || order.status === OrderStatus.RTO_INITIATED;
+            const updatedItems = order.items.map(item => {
+                const matchName = item.product_name.trim();
+                const productDef = productList.find(p => p.title.trim() === matchName || (p.aliases && p.aliases.includes(matchName)));
+                
+                const historicalCogs = productDef ? getCostAtDate(productDef, order.created_at) : 0;
+                
+                return { 
+                    ...item, 
+                    cogs_at_time_of_order: historicalCogs,
+                    product_id: productDef ? productDef.id : item.product_id 
+                };
+            });
+            
+            const taxAmount = order.status === OrderStatus.DELIVERED ? (order.cod_amount * (fetchedSettings.taxRate / 100)) : 0;
+            const weightKg = getOrderWeight({ ...order, items: updatedItems }, productList);
+            const originCity = courierConfigs[order.courier]?.origin_city || fetchedSettings.originCity;
+
+            return {
+                ...order,
+                courier_fee: calculateForwardFee(rateCard, weightKg, originCity, order.customer_city),
+                rto_penalty: isRto ? rateCard.rto : 0,
+                packaging_cost: fetchedSettings.packagingCost,
+                overhead_cost: fetchedSettings.overheadCost,
+                tax_amount: taxAmount,
+                items: updatedItems
+            };
+        });
+
+        const anyActiveConfig = Object.keys(courierConfigs).length > 0 || !!shopifyConfig;
 
         if (!anyActiveConfig) {
             setLoading(false);
@@ -226,256 +367,30 @@ const App: React.FC = () => {
         // Track seen titles to prevent duplicates (using lower case for strictness)
         const seenTitles = new Set(savedProducts.map(p => p.title.trim().toLowerCase()));
 
-        // E. Fetch Shopify Data 
-        let rawShopifyOrders: ShopifyOrder[] = [];
+        // E. Fetch Stored Shopify Orders (for reconciliation)
         if (shopifyConfig) {
             try {
-                const shopifyAdapter = new ShopifyAdapter();
-                rawShopifyOrders = await shopifyAdapter.fetchOrders(shopifyConfig);
-                setShopifyOrders(rawShopifyOrders);
+                const windowStart = new Date();
+                windowStart.setDate(windowStart.getDate() - SHOPIFY_HISTORY_DAYS);
+                setShopifyOrders(await loadShopifyOrders(supabase, user.id, windowStart.toISOString()));
             } catch (e: any) {
-                console.error("Shopify Sync Error:", e);
-                setError("Shopify Sync Failed: " + e.message);
+                console.error("Stored Shopify Orders Error:", e);
+                setError((prev) => (prev ? prev + " | " : "") + e.message);
             }
         } else {
             setShopifyOrders([]);
         }
 
-        // F. Fetch Live Orders from Couriers (List-Based APIs)
-        let fetchedOrders: Order[] = [];
-        let infoMsgs: string[] = [];
-
-        // 1. PostEx
-        if (postExConfig) {
-            try {
-                const postExAdapter = new PostExAdapter();
-                const pxOrders = await postExAdapter.fetchRecentOrders(postExConfig);
-                fetchedOrders = [...fetchedOrders, ...pxOrders];
-                if (pxOrders.length === 0) infoMsgs.push("PostEx connected but returned 0 orders in last 60 days.");
-            } catch (e: any) {
-                console.error("PostEx Sync Error:", e);
-                setError((prev) => (prev ? prev + " | " : "") + "PostEx Failed: " + e.message);
-            }
-        }
-
-        // 2. TCS (Settlement API Only)
-        if (tcsConfig) {
-            try {
-                const tcsAdapter = new TcsAdapter();
-                const tcsOrders = await tcsAdapter.fetchRecentOrders(tcsConfig);
-                fetchedOrders = [...fetchedOrders, ...tcsOrders];
-            } catch (e: any) {
-                console.warn("TCS Settlement API Failed: " + e.message);
+        // F. Point first-time users at the sync until its first run has written orders
+        if (!isDemoMode) {
+            const { data: lastRun } = await supabase.from('sync_runs').select('id').eq('user_id', user.id).limit(1);
+            if (!lastRun || lastRun.length === 0) {
+                setInfoMessage("Your orders have not been synced yet. Use Sync Now on the Integrations page to pull them, or wait for the next scheduled sync.");
             }
         }
 
-        // G. Backfill TCS & Daewoo Orders from Shopify
-        if (rawShopifyOrders.length > 0) {
-             // 1. Define window (Last 120 Days to match fetch)
-             const cutoffDate = new Date();
-             cutoffDate.setDate(cutoffDate.getDate() - 120);
-
-             // Create sets of already fetched IDs (Order Numbers AND Tracking Numbers)
-             const existingRefNos = new Set(fetchedOrders.map(o => String(o.shopify_order_number || '').replace('#','').toLowerCase()));
-             const existingTrackingNos = new Set(fetchedOrders.map(o => String(o.tracking_number || '').toLowerCase()));
-             
-             // 2. Filter Candidates from Shopify
-             const candidates = rawShopifyOrders.filter(s => {
-                 if (!s) return false;
-
-                 // Date Check
-                 const d = new Date(s.created_at);
-                 if (d < cutoffDate) return false;
-
-                 // Duplication Check (Strict)
-                 const safeName = String(s.name || '').replace('#','').toLowerCase();
-                 const isRefExist = existingRefNos.has(safeName);
-                 if (isRefExist) return false;
-
-                 // Check if any fulfillment tracking number already exists in fetchedOrders
-                 const hasExistingTracking = s.fulfillments?.some(f => 
-                     f.tracking_number && existingTrackingNos.has(String(f.tracking_number).toLowerCase())
-                 );
-                 if (hasExistingTracking) return false;
-
-                 const isFulfilled = s.fulfillment_status === 'fulfilled' || s.fulfillment_status === 'partial' || s.fulfillment_status === 'partially_fulfilled';
-                 const tags = (s.tags || '').toLowerCase();
-                 
-                 // --- TCS Detection ---
-                 const hasTcsTag = tags.includes('tcs');
-                 if (hasTcsTag) return true;
-
-                 // --- Daewoo Detection ---
-                 const hasDaewooTag = tags.includes('daewoo') || tags.includes('fastex');
-                 if (hasDaewooTag) return true;
-
-                 // If already fulfilled but not mapped, check tracking company
-                 if (isFulfilled) {
-                     return s.fulfillments?.some(f => {
-                         const company = f.tracking_company ? String(f.tracking_company).toLowerCase() : '';
-                         const num = (f.tracking_number ? String(f.tracking_number) : '').replace(/[^a-zA-Z0-9]/g, '');
-                         
-                         // Negative check: Not other common couriers
-                         const isOther = company.includes('trax') || company.includes('leopard') || company.includes('postex') || company.includes('mnp') || company.includes('callcourier');
-                         if (isOther) return false;
-
-                         // Positive Checks
-                         const isTcs = company.includes('tcs') || /^\d{9,16}$/.test(num); // TCS often pure numbers
-                         const isDaewoo = company.includes('daewoo') || company.includes('fastex');
-
-                         return isTcs || isDaewoo;
-                     });
-                 }
-                 return false;
-             });
-
-             if (candidates.length > 0) {
-                 const batchCount = candidates.length;
-                 console.log(`[Backfill] Found ${batchCount} candidates from last 120 days.`);
-                 infoMsgs.push(`Found ${batchCount} orders via Shopify tags/tracking.`);
-
-                 // --- BATCH PROCESSING FOR AUTOMATIC TRACKING ---
-                 const BATCH_SIZE = 5;
-                 const DELAY_MS = 1000;
-                 const processedBackfillOrders: Order[] = [];
-
-                 // Process in chunks
-                 for (let i = 0; i < candidates.length; i += BATCH_SIZE) {
-                     const batch = candidates.slice(i, i + BATCH_SIZE);
-                     
-                     const batchResults = await Promise.all(batch.map(async (sOrder) => {
-                         try {
-                            const tags = (sOrder.tags || '').toLowerCase();
-                            
-                            // Detect Fulfillment
-                            let ff = sOrder.fulfillments?.find(f => f.tracking_number);
-                            const company = ff?.tracking_company ? String(ff.tracking_company).toLowerCase() : '';
-                            const num = ff?.tracking_number ? String(ff.tracking_number) : '';
-
-                            // Determine Courier Logic
-                            let isTcs = tags.includes('tcs') || company.includes('tcs') || /^\d{9,16}$/.test(num);
-                            let isDaewoo = tags.includes('daewoo') || tags.includes('fastex') || company.includes('daewoo') || company.includes('fastex');
-                            
-                            // If ambiguous and purely numeric, prefer TCS if enabled, else Daewoo if enabled
-                            if (!isTcs && !isDaewoo && /^\d+$/.test(num)) {
-                                if (tcsConfig) isTcs = true;
-                                else if (daewooConfig) isDaewoo = true;
-                            }
-
-                            // --- KEY LOGIC UPDATE: Handle Unfulfilled Orders ---
-                            let trackingNo = 'Pending';
-                            let status = OrderStatus.PENDING;
-                            let rawStatusText = 'Order Placed';
-                            let orderId = String(sOrder.id);
-                            let courier = isDaewoo ? CourierName.DAEWOO : CourierName.TCS; // Default to TCS if unsure
-
-                            if (ff && ff.tracking_number) {
-                                trackingNo = ff.tracking_number;
-                                orderId = ff.tracking_number; // Prefer Tracking Number as ID
-                                status = OrderStatus.BOOKED; // Default to BOOKED
-                                rawStatusText = 'Booked / Pending Scan';
-                                
-                                // *** AUTOMATIC LIVE TRACKING ***
-                                try {
-                                    if (isTcs && tcsConfig && tcsConfig.api_token) {
-                                        courier = CourierName.TCS;
-                                        const tcsAdapter = new TcsAdapter();
-                                        const update = await tcsAdapter.track(trackingNo, tcsConfig);
-                                        status = update.status;
-                                        rawStatusText = update.raw_status_text;
-                                    } else if (isDaewoo && daewooConfig && daewooConfig.api_token) {
-                                        courier = CourierName.DAEWOO;
-                                        const dwAdapter = new DaewooAdapter();
-                                        const update = await dwAdapter.track(trackingNo, daewooConfig);
-                                        status = update.status;
-                                        rawStatusText = update.raw_status_text;
-                                    }
-                                } catch (e) {
-                                    // Silent fail - remains BOOKED
-                                }
-                            } else {
-                                rawStatusText = 'Waiting for Fulfillment';
-                            }
-
-                            const cod = parseFloat(sOrder.total_price || '0');
-                            const safeItems = Array.isArray(sOrder.line_items) ? sOrder.line_items : [];
-                            const customerCity = sOrder.shipping_address?.city || sOrder.customer?.city || 'Unknown';
-
-                            // --- CONSOLIDATE ITEMS (Sorted) ---
-                            let combinedName = '';
-                            let totalItemPrice = 0;
-                            
-                            if (safeItems.length > 0) {
-                                combinedName = safeItems
-                                    .map(li => {
-                                        const qty = li.quantity || 1;
-                                        const name = (li.name || li.title || 'Item').trim();
-                                        return { name, qty, str: `${qty}x ${name}` };
-                                    })
-                                    .sort((a, b) => a.name.localeCompare(b.name)) 
-                                    .map(i => i.str)
-                                    .join(' + ');
-
-                                totalItemPrice = safeItems.reduce((acc, curr) => acc + (parseFloat(curr.price || '0') * (curr.quantity || 1)), 0);
-                            } else {
-                                combinedName = 'Unknown Item';
-                            }
-
-                            const rateCard = fetchedSettings.rates[courier] || fetchedSettings.rates[CourierName.TCS];
-
-                            const newOrder: Order = {
-                                id: orderId,
-                                shopify_order_number: sOrder.name || 'Unknown',
-                                created_at: sOrder.created_at,
-                                customer_city: customerCity,
-                                courier: courier,
-                                tracking_number: trackingNo,
-                                status: status,
-                                payment_status: PaymentStatus.UNPAID,
-                                cod_amount: cod,
-                                shipping_fee_paid_by_customer: 0,
-                                courier_fee: rateCard.forward,
-                                rto_penalty: 0, 
-                                packaging_cost: fetchedSettings.packagingCost,
-                                overhead_cost: 0,
-                                tax_amount: 0,
-                                data_source: 'tracking', 
-                                courier_raw_status: rawStatusText,
-                                items: [{
-                                    product_id: 'unknown',
-                                    quantity: 1, 
-                                    sale_price: totalItemPrice,
-                                    product_name: combinedName,
-                                    sku: '', 
-                                    variant_fingerprint: combinedName,
-                                    cogs_at_time_of_order: 0
-                                }]
-                            };
-                            return newOrder;
-                         } catch (err) {
-                            return null;
-                         }
-                     }));
-
-                     const validBatch = batchResults.filter((o): o is Order => o !== null);
-                     processedBackfillOrders.push(...validBatch);
-
-                     // Throttle
-                     if ((tcsConfig || daewooConfig) && i + BATCH_SIZE < candidates.length) {
-                         await new Promise(r => setTimeout(r, DELAY_MS));
-                     }
-                 }
-
-                 fetchedOrders = [...fetchedOrders, ...processedBackfillOrders];
-             }
-        }
-
-        if(infoMsgs.length > 0) {
-            setInfoMessage(infoMsgs.join(' '));
-        }
-
         // Process discovered items from Courier Orders to build INVENTORY
-        fetchedOrders.forEach(o => {
+        storedOrders.forEach(o => {
             if (!o.items) return;
             o.items.forEach(item => {
                 const fingerprint = item.product_name.trim();
@@ -506,51 +421,7 @@ const App: React.FC = () => {
             });
         });
 
-        // DEDUPLICATION: Final Check on Orders Array
-        const uniqueOrdersMap = new Map<string, Order>();
-        fetchedOrders.forEach(order => {
-            const key = order.shopify_order_number.trim().toLowerCase().replace('#', '');
-            if (uniqueOrdersMap.has(key)) {
-                const existing = uniqueOrdersMap.get(key)!;
-                if (existing.data_source === 'tracking' && order.data_source !== 'tracking') {
-                    uniqueOrdersMap.set(key, order);
-                }
-            } else {
-                uniqueOrdersMap.set(key, order);
-            }
-        });
-        const finalUniqueOrders = Array.from(uniqueOrdersMap.values());
-
-        const processedOrders = finalUniqueOrders.map(order => {
-            const rateCard = fetchedSettings.rates[order.courier] || fetchedSettings.rates[CourierName.POSTEX];
-            const isRto = order.status === OrderStatus.RETURNED || order.status === OrderStatus.RTO_INITIATED;
-            const updatedItems = order.items.map(item => {
-                const matchName = item.product_name.trim();
-                const productDef = finalProducts.find(p => p.title.trim() === matchName || (p.aliases && p.aliases.includes(matchName)));
-                
-                const historicalCogs = productDef ? getCostAtDate(productDef, order.created_at) : 0;
-                
-                return { 
-                    ...item, 
-                    cogs_at_time_of_order: historicalCogs,
-                    product_id: productDef ? productDef.id : item.product_id 
-                };
-            });
-            
-            const taxAmount = order.status === OrderStatus.DELIVERED ? (order.cod_amount * (fetchedSettings.taxRate / 100)) : 0;
-
-            return {
-                ...order,
-                courier_fee: rateCard.forward,
-                rto_penalty: isRto ? rateCard.rto : 0,
-                packaging_cost: fetchedSettings.packagingCost,
-                overhead_cost: fetchedSettings.overheadCost,
-                tax_amount: taxAmount,
-                items: updatedItems
-            };
-        });
-
-        setOrders(processedOrders);
+        setOrders(processOrders(storedOrders, finalProducts));
 
         // Save new products to DB for persistence
         if (!isDemoMode && finalProducts.length > savedProducts.length) {
@@ -608,7 +479,8 @@ const App: React.FC = () => {
               cost_history: p.cost_history,
               group_id: p.group_id,
               group_name: p.group_name,
-              aliases: p.aliases
+              aliases: p.aliases,
+              weight_kg: p.weight_kg ?? null
           }));
           const { error } = await supabase.from('products').upsert(payload);
           if (error) {
@@ -708,44 +580,293 @@ const App: React.FC = () => {
       }
   };
 
+  // Writes orders changed in the app (tracking, bookings, handovers, NDR advice) back to the stored set
+  const persistOrders = async (changed: Order[]) => {
+      if (isDemoMode || !session?.user || changed.length === 0) return;
+      try {
+          await saveOrders(supabase, session.user.id, changed);
+      } catch (e: any) {
+          setError(prev => (prev ? prev + " | " : "") + e.message);
+      }
+  };
+
   // --- MANUAL LIVE TRACKING ---
+  // Couriers often show "Booked" until the first hub scan and keep a checked-in return on its way back,
+  // so the warehouse override runs after the user's mapping
+  const applyTrackingUpdate = (order: Order, update: TrackingUpdate): Order => applyWarehouseStatus({
+      ...order,
+      status: resolveMappedStatus(order.courier, update.raw_status_text, update.status, statusMappingIndex),
+      courier_raw_status: update.raw_status_text, // Save Raw Status for UI display
+      tracking_history: update.checkpoints && update.checkpoints.length > 0 ? update.checkpoints : order.tracking_history
+  });
+
   const handleManualTrack = async (order: Order): Promise<OrderStatus> => {
       try {
-          let updatedStatus = order.status;
-          let rawStatus = order.courier_raw_status;
-          
-          if (order.courier === CourierName.TCS && configs.tcs) {
-              const adapter = new TcsAdapter();
-              const result = await adapter.track(order.tracking_number, configs.tcs);
-              updatedStatus = result.status;
-              rawStatus = result.raw_status_text;
-          } else if (order.courier === CourierName.POSTEX && configs.postex) {
-              const adapter = new PostExAdapter();
-              const result = await adapter.track(order.tracking_number, configs.postex);
-              updatedStatus = result.status;
-              rawStatus = result.raw_status_text;
-          } else if (order.courier === CourierName.DAEWOO && configs.daewoo) {
-              const adapter = new DaewooAdapter();
-              const result = await adapter.track(order.tracking_number, configs.daewoo);
-              updatedStatus = result.status;
-              rawStatus = result.raw_status_text;
-          }
+          const resolved = resolveCourier(order.courier, configs);
+          if (!resolved) return order.status;
 
-          // Update Local State if status changed
-          if (updatedStatus !== order.status || rawStatus !== order.courier_raw_status) {
-              setOrders(prev => prev.map(o => o.id === order.id ? { 
-                  ...o, 
-                  status: updatedStatus,
-                  courier_raw_status: rawStatus // Updated: Save Raw Status for UI display
-              } : o));
-          }
-          return updatedStatus;
+          const result = await resolved.adapter.track(order.tracking_number, resolved.config);
+
+          // Always apply: even when the status is unchanged the checkpoint history may have grown
+          setOrders(prev => prev.map(o => o.id === order.id ? applyTrackingUpdate(o, result) : o));
+          const updated = applyTrackingUpdate(order, result);
+          await persistOrders([updated]);
+          return updated.status;
       } catch (e) {
           console.error("Manual Track Error", e);
           throw e;
       }
   };
 
+  // --- BULK LIVE TRACKING ---
+  // Couriers with a multi-CN endpoint refresh in one request; the rest are tracked one by one with throttling
+  const handleBulkTrack = async (ordersToTrack: Order[], onProgress?: (done: number) => void): Promise<number> => {
+      const groups = new Map<CourierName, Order[]>();
+      ordersToTrack.forEach(o => {
+          if (!configs[o.courier]) return;
+          groups.set(o.courier, [...(groups.get(o.courier) || []), o]);
+      });
+
+      let done = 0;
+      let updatedCount = 0;
+
+      for (const [courierName, group] of groups) {
+          const resolved = resolveCourier(courierName, configs);
+          if (!resolved) continue;
+
+          let updates: TrackingUpdate[] = [];
+
+          if (resolved.capabilities.canBulkTrack && resolved.adapter.trackBulk) {
+              try {
+                  updates = await resolved.adapter.trackBulk(group.map(o => o.tracking_number), resolved.config);
+              } catch (e) {
+                  console.error(`${courierName} bulk tracking failed`, e);
+              }
+              done += group.length;
+              onProgress?.(done);
+          } else {
+              for (const order of group) {
+                  try {
+                      updates.push(await resolved.adapter.track(order.tracking_number, resolved.config));
+                  } catch (e) {
+                      console.error("Sync failed for", order.id);
+                  }
+                  done++;
+                  onProgress?.(done);
+                  // Add small delay to prevent rate limiting
+                  await new Promise(r => setTimeout(r, 800));
+              }
+          }
+
+          const updateMap = new Map(updates.map(u => [String(u.tracking_number).toLowerCase(), u]));
+          updatedCount += updates.length;
+
+          setOrders(prev => prev.map(o => {
+              if (o.courier !== courierName) return o;
+              const update = updateMap.get(String(o.tracking_number).toLowerCase());
+              return update ? applyTrackingUpdate(o, update) : o;
+          }));
+          await persistOrders(group.flatMap(o => {
+              const update = updateMap.get(String(o.tracking_number).toLowerCase());
+              return update ? [applyTrackingUpdate(o, update)] : [];
+          }));
+      }
+
+      return updatedCount;
+  };
+
+  // --- COURIER BOOKING ---
+  // Books the order with its assigned courier and writes the returned CN back onto the order
+  const handleBookOrder = async (order: Order): Promise<string> => {
+      const resolved = resolveCourier(order.courier, configs);
+      if (!resolved) throw new Error(`${order.courier} is not connected. Please check Integrations.`);
+      if (!resolved.capabilities.canBook) throw new Error(`${order.courier} booking is not supported yet.`);
+
+      // Book the weight the rate quote used; it is stored so labels and costs keep matching the booking
+      const weightKg = getOrderWeight(order, products);
+      const trackingNumber = await resolved.adapter.createBooking({ ...order, weight_kg: weightKg }, resolved.config);
+      const booking = {
+          courier: order.courier,
+          weight_kg: weightKg,
+          tracking_number: trackingNumber,
+          status: OrderStatus.BOOKED,
+          courier_raw_status: 'Booked',
+          booked_at: new Date().toISOString()
+      };
+
+      setOrders(prev => prev.map(o => o.id === order.id ? { ...o, ...booking } : o));
+      await persistOrders([{ ...order, ...booking }]);
+
+      return trackingNumber;
+  };
+
+  // Voids the booking with the courier before pickup; cancelled orders carry no shipping or packaging cost
+  const handleCancelBooking = async (order: Order): Promise<void> => {
+      const resolved = resolveCourier(order.courier, configs);
+      if (!resolved) throw new Error(`${order.courier} is not connected. Please check Integrations.`);
+      if (!resolved.capabilities.canCancel || !resolved.adapter.cancelBooking) throw new Error(`${order.courier} cancellation is not supported. Please cancel in the courier portal.`);
+
+      await resolved.adapter.cancelBooking(order.tracking_number, resolved.config);
+
+      setOrders(prev => prev.map(o => o.id === order.id ? {
+          ...o,
+          status: OrderStatus.CANCELLED,
+          courier_raw_status: 'Cancelled',
+          courier_fee: 0,
+          packaging_cost: 0,
+          rto_penalty: 0
+      } : o));
+      await persistOrders([{ ...order, status: OrderStatus.CANCELLED, courier_raw_status: 'Cancelled' }]);
+  };
+
+  // Books a queue of orders one at a time (with the courier chosen per order) and reports each result as it lands
+  const handleBulkBook = async (assignments: { order: Order, courier: CourierName }[], onResult?: (result: BookingResult) => void): Promise<BookingResult[]> => {
+      const results: BookingResult[] = [];
+
+      for (let i = 0; i < assignments.length; i++) {
+          const { order, courier } = assignments[i];
+          let result: BookingResult;
+
+          try {
+              const trackingNumber = await handleBookOrder({ ...order, courier });
+              result = { order_id: order.id, courier, success: true, tracking_number: trackingNumber };
+          } catch (e: any) {
+              result = { order_id: order.id, courier, success: false, error: e.message || 'Booking failed' };
+          }
+
+          results.push(result);
+          onResult?.(result);
+
+          // Add small delay to prevent rate limiting
+          if (i < assignments.length - 1) await new Promise(r => setTimeout(r, 800));
+      }
+
+      return results;
+  };
+
+  // --- STATUS MAPPINGS ---
+  const handleSaveStatusMappings = async (newMappings: StatusMapping[]) => {
+      const index = buildStatusMappingIndex(newMappings);
+
+      setStatusMappings(prev => {
+          const replaced = new Set(newMappings.map(m => `${m.courier}|${m.raw_status}`));
+          return [...prev.filter(m => !replaced.has(`${m.courier}|${m.raw_status}`)), ...newMappings];
+      });
+      setOrders(prev => applyStatusMappings(prev, index).map(applyWarehouseStatus));
+
+      if (!isDemoMode && session?.user) {
+          const payload = newMappings.map(m => ({
+              user_id: session.user.id,
+              courier: m.courier,
+              raw_status: m.raw_status,
+              status: m.status
+          }));
+          const { error } = await supabase.from('courier_status_mappings').upsert(payload, { onConflict: 'user_id,courier,raw_status' });
+          if (error) setError(prev => (prev ? prev + " | " : "") + "Status mapping save failed: " + error.message);
+      }
+  };
+
+  const handleDeleteStatusMapping = async (mapping: StatusMapping) => {
+      setStatusMappings(prev => prev.filter(m => !(m.courier === mapping.courier && m.raw_status === mapping.raw_status)));
+
+      // Fall back to the adapter's own classification for orders that used this mapping
+      setOrders(prev => prev.map(o => o.courier === mapping.courier && normalizeRawStatus(o.courier_raw_status) === mapping.raw_status
+          ? { ...o, status: getCourierAdapter(o.courier).mapStatus(String(o.courier_raw_status)) }
+          : o
+      ));
+
+      if (!isDemoMode && session?.user) {
+          await supabase.from('courier_status_mappings').delete()
+              .eq('user_id', session.user.id)
+              .eq('courier', mapping.courier)
+              .eq('raw_status', mapping.raw_status);
+      }
+  };
+
+  // --- COD REMITTANCE ---
+  const handleSaveRemittance = async (newRecords: RemittanceRecord[]) => {
+      setRemittances(prev => [...prev, ...newRecords]);
+      setOrders(prev => applyRemittances(prev, newRecords));
+
+      if (!isDemoMode && session?.user) {
+          const payload = newRecords.map(r => ({ user_id: session.user.id, ...r, charges: r.charges ?? null }));
+          const { error } = await supabase.from('courier_remittances').upsert(payload, { onConflict: 'user_id,courier,tracking_number' });
+          if (error) setError(prev => (prev ? prev + " | " : "") + "Remittance save failed: " + error.message);
+      }
+  };
+
+  // Asks the courier which delivered, unpaid orders it has paid out, instead of uploading its statement
+  const handleFetchSettlements = async (courier: CourierName): Promise<CourierSettlement[]> => {
+      const resolved = resolveCourier(courier, configs);
+      if (!resolved) throw new Error(`${courier} is not connected. Please check Integrations.`);
+      if (!resolved.capabilities.canSettle || !resolved.adapter.fetchSettlements) throw new Error(`${courier} does not report payouts. Please upload its statement.`);
+
+      const unpaid = orders
+          .filter(o => o.courier === courier && o.status === OrderStatus.DELIVERED && o.payment_status === PaymentStatus.UNPAID && o.tracking_number && o.tracking_number !== 'Pending')
+          .map(o => o.tracking_number);
+      if (unpaid.length === 0) return [];
+      return resolved.adapter.fetchSettlements(unpaid, resolved.config);
+  };
+
+  // --- STUCK SHIPMENTS ---
+  const handleSaveClaim = async (claim: CourierClaim) => {
+      if (!isDemoMode && session?.user) {
+          const { error } = await supabase.from('courier_claims').upsert({
+              user_id: session.user.id,
+              courier: claim.courier,
+              tracking_number: claim.tracking_number,
+              order_id: claim.order_id,
+              reason: claim.reason,
+              status: claim.status,
+              claim_amount: claim.claim_amount,
+              settled_amount: claim.settled_amount ?? null,
+              reference: claim.reference ?? null,
+              notes: claim.notes ?? null,
+              raised_at: claim.raised_at,
+              resolved_at: claim.resolved_at ?? null
+          }, { onConflict: 'user_id,courier,tracking_number' });
+          if (error) throw new Error("Claim save failed: " + error.message);
+      }
+
+      setClaims(prev => [...prev.filter(c => !(c.courier === claim.courier && c.tracking_number === claim.tracking_number)), claim]);
+  };
+
+  // Warehouse check-in of a return closes it out, even if the courier still shows it on the way back
+  const handleMarkRtoReceived = async (order: Order): Promise<void> => {
+      const receipt = { status: OrderStatus.RETURNED, rto_received_at: new Date().toISOString() };
+      setOrders(prev => prev.map(o => o.id === order.id ? { ...o, ...receipt } : o));
+      await persistOrders([{ ...order, ...receipt }]);
+  };
+
+  // --- PICKUP HANDOVER ---
+  // Signed-off load sheet: the parcels are with the courier now, so live tracking takes over from here
+  const handleMarkHandedOver = async (orderIds: string[]): Promise<void> => {
+      const ids = new Set(orderIds);
+      const handover = {
+          status: OrderStatus.IN_TRANSIT,
+          handed_over_at: new Date().toISOString(),
+          courier_raw_status: 'Handed over to courier'
+      };
+      setOrders(prev => prev.map(o => ids.has(o.id) ? { ...o, ...handover } : o));
+      await persistOrders(orders.filter(o => ids.has(o.id)).map(o => ({ ...o, ...handover })));
+  };
+
+  // Sends shipper advice through the courier when its API supports it; otherwise only records the decision
+  const handleNdrAction = async (order: Order, action: NdrAction, remarks: string): Promise<void> => {
+      const resolved = resolveCourier(order.courier, configs);
+      if (resolved?.capabilities.canNdr && resolved.adapter.submitNdrAction) {
+          await resolved.adapter.submitNdrAction(order.tracking_number, action, resolved.config, remarks);
+      }
+
+      const advice = {
+          ndr_action: action,
+          ndr_action_at: new Date().toISOString(),
+          ndr_remarks: remarks || undefined
+      };
+      setOrders(prev => prev.map(o => o.id === order.id ? { ...o, ...advice } : o));
+      await persistOrders([{ ...order, ...advice }]);
+  };
+
   const generateUUID = () => {
       if (typeof crypto !== 'undefined' && crypto.randomUUID) {
           return crypto.randomUUID();
@@ -849,7 +970,7 @@ const App: React.FC = () => {
                  </div>
                  <h2 className="text-2xl font-bold text-slate-900 mb-2">Setup Required</h2>
                  <p className="text-slate-500 mb-8">
-                     To start analyzing your profits, please connect your Courier (PostEx, TCS) or Store first.
+                     To start analyzing your profits, please connect your Courier (PostEx, TCS, Trax) or Store first.
                  </p>
                  <button 
                     onClick={() => setCurrentPage('integrations')}
@@ -861,10 +982,14 @@ const App: React.FC = () => {
         ) : (
             <>
                 {currentPage === 'dashboard' && <Dashboard orders={orders} shopifyOrders={shopifyOrders} adSpend={adSpend} adsTaxRate={settings.adsTaxRate} storeName={storeName} />}
-                {currentPage === 'orders' && <Orders orders={orders} onTrackOrder={handleManualTrack} />}
-                {currentPage === 'couriers' && <Couriers orders={orders} />}
+                {currentPage === 'orders' && <Orders orders={orders} storeName={storeName} products={products} trackableCouriers={Object.keys(configs) as CourierName[]} onTrackOrder={handleManualTrack} onBulkTrack={handleBulkTrack} bookableCouriers={bookableCouriers} onQuoteCouriers={handleQuoteCouriers} onBookOrder={handleBookOrder} onBulkBook={handleBulkBook} daewooTerminals={daewooTerminals || []} onMarkHandedOver={handleMarkHandedOver} cancellableCouriers={getConfiguredCouriers(configs, 'canCancel').map(c => c.name)} onCancelBooking={handleCancelBooking} />}
+                {currentPage === 'couriers' && <Couriers orders={orders} slaDays={settings.slaDays} />}
+                {currentPage === 'remittances' && <Remittances orders={orders} records={remittances} onSaveRemittance={handleSaveRemittance} settleableCouriers={getConfiguredCouriers(configs, 'canSettle').map(c => c.name)} onFetchSettlements={handleFetchSettlements} />}
+                {currentPage === 'aging' && <ShipmentAging orders={orders} claims={claims} onSaveClaim={handleSaveClaim} onMarkRtoReceived={handleMarkRtoReceived} onTrackOrder={handleManualTrack} />}
+                {currentPage === 'ndr' && <NdrQueue orders={orders} ndrCouriers={getConfiguredCouriers(configs, 'canNdr').map(c => c.name)} onNdrAction={handleNdrAction} onTrackOrder={handleManualTrack} />}
+                {currentPage === 'status-mappings' && <StatusMappings orders={orders} mappings={statusMappings} connectedCouriers={Object.keys(configs) as CourierName[]} onSaveMappings={handleSaveStatusMappings} onDeleteMapping={handleDeleteStatusMapping} />}
                 {/* Updated to pass tcsConfig for manual tracking */}
-                {currentPage === 'tcs-debug' && <TcsDebug orders={orders} shopifyOrders={shopifyOrders} onTrackOrder={handleManualTrack} tcsConfig={configs.tcs} />}
+                {currentPage === 'tcs-debug' && <TcsDebug orders={orders} shopifyOrders={shopifyOrders} onTrackOrder={handleManualTrack} tcsConfig={configs[CourierName.TCS]} />}
                 {currentPage === 'profitability' && <Profitability orders={orders} shopifyOrders={shopifyOrders} products={products} adSpend={adSpend} adsTaxRate={settings.adsTaxRate} storeName={storeName} />}
                 {currentPage === 'inventory' && <Inventory products={products} orders={orders} shopifyOrders={shopifyOrders} onUpdateProducts={handleUpdateProducts} />}
                 {currentPage === 'marketing' && <Marketing adSpend={adSpend} products={products} orders={orders} onAddAdSpend={handleUpdateAdSpend} onDeleteAdSpend={handleDeleteAdSpend} onSyncAdSpend={handleSyncAdSpend} onNavigate={setCurrentPage} />}
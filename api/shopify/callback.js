@@ -74,7 +74,7 @@ export default async function handler(req, res) {
         access_token: tokenData.access_token,
         scope: tokenData.scope,
         is_active: true,
-        last_sync_at: new Date().toISOString()
+        last_sync_at: null // (Re)connected store: the next sync pulls the full history window
     }, { onConflict: 'user_id, platform' });
 
     if (error) {
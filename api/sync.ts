@@ -0,0 +1,64 @@
+import { createClient } from '@supabase/supabase-js';
+import { getDueSyncUserIds, runUserSync } from '../services/syncJob.js';
+
+// Users taken per scheduled call, and how long a call keeps starting new ones (maxDuration is 300s)
+const SCHEDULE_BATCH_SIZE = 10;
+const SCHEDULE_BUDGET_MS = 60 * 1000;
+
+export default async function handler(req: any, res: any) {
+  const supabaseUrl = process.env.VITE_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  // Writes orders for any user, so RLS must be bypassed; the anon key is not enough here
+  if (!supabaseUrl || !serviceKey) {
+    return res.status(500).json({ error: 'SUPABASE_SERVICE_ROLE_KEY is not configured' });
+  }
+  const supabase = createClient(supabaseUrl, serviceKey);
+
+  const token = String(req.headers.authorization || '').replace(/^Bearer\s+/i, '');
+  if (!token) {
+    return res.status(401).json({ error: 'Missing authorization' });
+  }
+
+  // 1. Scheduled run: Vercel Cron sends CRON_SECRET every 10 minutes. Each call syncs the users who have waited longest,
+  // one at a time to stay within courier rate limits, and starts no new user once SCHEDULE_BUDGET_MS is spent so the
+  // last one still has most of maxDuration. Whoever is left is picked up by the next call.
+  if (process.env.CRON_SECRET && token === process.env.CRON_SECRET) {
+    const startedAt = Date.now();
+    let userIds: string[];
+    try {
+      userIds = await getDueSyncUserIds(supabase, SCHEDULE_BATCH_SIZE);
+    } catch (e: any) {
+      console.error('Sync Error:', e);
+      return res.status(500).json({ error: e.message });
+    }
+    const results = [];
+    for (const userId of userIds) {
+      if (Date.now() - startedAt > SCHEDULE_BUDGET_MS) break;
+      try {
+        const run = await runUserSync(supabase, userId, 'SCHEDULE');
+        results.push({ user_id: userId, status: run.status, errors: run.errors });
+      } catch (e: any) {
+        results.push({ user_id: userId, status: 'FAILED', errors: [e.message] });
+      }
+    }
+    return res.status(200).json({ due: userIds.length, results });
+  }
+
+  // 2. "Sync now" from the app, authorised with the signed-in user's Supabase access token
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Use POST to start a sync' });
+  }
+
+  const { data: { user }, error } = await supabase.auth.getUser(token);
+  if (error || !user) {
+    return res.status(401).json({ error: 'Invalid or expired session' });
+  }
+
+  try {
+    const run = await runUserSync(supabase, user.id, 'MANUAL', !!req.body?.full_resync);
+    return res.status(200).json(run);
+  } catch (e: any) {
+    console.error('Sync Error:', e);
+    return res.status(500).json({ error: e.message });
+  }
+}
@@ -0,0 +1,279 @@
+import React, { useState, useMemo } from 'react';
+import { Order, CourierName, BookingRule, BookingResult, CourierTerminal, Product } from '../types';
+import { formatCurrency } from '../services/calculator';
+import { assignCourier, describeBookingRule } from '../services/bookingRules';
+import { CourierQuote } from '../services/rateShopping';
+import { getOrderWeight } from '../services/rateCards';
+import { matchDaewooTerminal } from '../services/couriers/daewoo';
+import DaewooTerminalSelect from './DaewooTerminalSelect';
+import { X, Plus, Trash2, Loader2, CheckCircle2, XCircle, Wand2, Truck } from 'lucide-react';
+
+interface BulkBookingModalProps {
+  orders: Order[];
+  bookableCouriers: CourierName[];
+  products?: Product[]; // For parcel weights when Shopify sent none
+  quotes?: Record<string, CourierQuote[]>; // Per order, best expected profit first
+  daewooTerminals?: CourierTerminal[]; // Destination choices for orders assigned to Daewoo
+  onBulkBook: (assignments: { order: Order, courier: CourierName }[], onResult?: (result: BookingResult) => void) => Promise<BookingResult[]>;
+  onClose: () => void;
+}
+
+const emptyRule = (courier: CourierName) => ({ courier, cities: '', min_cod: '', max_cod: '', max_weight_kg: '' });
+
+const BulkBookingModal: React.FC<BulkBookingModalProps> = ({ orders, bookableCouriers, products = [], quotes = {}, daewooTerminals = [], onBulkBook, onClose }) => {
+  const defaultCourier = bookableCouriers[0];
+
+  // Start with the recommended courier, then the order's current courier when it can book, otherwise the first bookable courier
+  const [assignments, setAssignments] = useState<Record<string, CourierName>>(() => {
+      const initial: Record<string, CourierName> = {};
+      orders.forEach(o => {
+          initial[o.id] = quotes[o.id]?.[0]?.courier || (bookableCouriers.includes(o.courier) ? o.courier : defaultCourier);
+      });
+      return initial;
+  });
+
+  // Preset to the only terminal in the customer's city; the rest must be picked before Daewoo will book them
+  const [terminals, setTerminals] = useState<Record<string, string>>({});
+  const getDaewooTerminal = (order: Order): string =>
+      terminals[order.id] ?? matchDaewooTerminal(order.customer_city, daewooTerminals)?.id ?? '';
+
+  const [rules, setRules] = useState<BookingRule[]>([]);
+  const [draftRule, setDraftRule] = useState(emptyRule(defaultCourier));
+  const [fallbackCourier, setFallbackCourier] = useState<CourierName>(defaultCourier);
+
+  const [results, setResults] = useState<Record<string, BookingResult>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const pendingOrders = useMemo(() => orders.filter(o => !results[o.id]?.success), [orders, results]);
+  const resultList = Object.values(results) as BookingResult[];
+  const successCount = resultList.filter(r => r.success).length;
+  const failedCount = resultList.filter(r => !r.success).length;
+
+  const handleAddRule = () => {
+      const toNumber = (v: string) => v.trim() === '' ? undefined : Number(v);
+      const cities = draftRule.cities.split(',').map(c => c.trim()).filter(Boolean);
+
+      setRules(prev => [...prev, {
+          id: `${Date.now()}`,
+          courier: draftRule.courier,
+          cities: cities.length > 0 ? cities : undefined,
+          min_cod: toNumber(draftRule.min_cod),
+          max_cod: toNumber(draftRule.max_cod),
+          max_weight_kg: toNumber(draftRule.max_weight_kg)
+      }]);
+      setDraftRule(emptyRule(draftRule.courier));
+  };
+
+  const handleApplyRules = () => {
+      setAssignments(prev => {
+          const next = { ...prev };
+          pendingOrders.forEach(o => {
+              next[o.id] = assignCourier(o, rules, bookableCouriers, fallbackCourier, products);
+          });
+          return next;
+      });
+  };
+
+  const handleSubmit = async () => {
+      if (pendingOrders.length === 0) return;
+      setIsSubmitting(true);
+
+      await onBulkBook(
+          pendingOrders.map(order => {
+              const courier = assignments[order.id];
+              const destination = courier === CourierName.DAEWOO ? getDaewooTerminal(order) : '';
+              return { order: { ...order, destination_terminal_id: destination || undefined }, courier };
+          }),
+          (result) => setResults(prev => ({ ...prev, [result.order_id]: result }))
+      );
+
+      setIsSubmitting(false);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm overflow-y-auto">
+        <div className="bg-white rounded-xl shadow-2xl w-full max-w-5xl border border-slate-200 flex flex-col max-h-[95vh]">
+            {/* Header */}
+            <div className="bg-slate-900 px-6 py-4 flex justify-between items-center shrink-0 rounded-t-xl">
+                <div>
+                    <h3 className="text-xl font-bold text-white flex items-center gap-2"><Truck size={20} /> Bulk Booking</h3>
+                    <p className="text-slate-400 text-xs mt-1 font-medium">
+                        {orders.length} orders selected
+                        {successCount > 0 && <span className="text-green-400"> · {successCount} booked</span>}
+                        {failedCount > 0 && <span className="text-red-400"> · {failedCount} failed</span>}
+                    </p>
+                </div>
+                <button
+                    onClick={onClose}
+                    disabled={isSubmitting}
+                    className="text-slate-400 hover:text-white transition-colors bg-slate-800 p-2 rounded-lg disabled:opacity-50"
+                >
+                    <X size={20} />
+                </button>
+            </div>
+
+            <div className="p-6 overflow-y-auto bg-slate-50 space-y-6">
+                {/* Rules */}
+                <div className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm">
+                    <h4 className="text-sm font-bold text-slate-900 uppercase tracking-wide mb-4 border-b border-slate-100 pb-2">
+                        Courier Rules <span className="text-slate-400 font-medium normal-case">(first match wins)</span>
+                    </h4>
+
+                    {rules.length > 0 && (
+                        <div className="space-y-2 mb-4">
+                            {rules.map((rule, idx) => (
+                                <div key={rule.id} className="flex items-center justify-between text-sm bg-slate-50 border border-slate-100 rounded-lg px-3 py-2">
+                                    <span className="text-slate-600">
+                                        <span className="font-bold text-slate-400 mr-2">{idx + 1}.</span>
+                                        {describeBookingRule(rule)} → <span className="font-bold text-slate-900">{rule.courier}</span>
+                                    </span>
+                                    <button onClick={() => setRules(prev => prev.filter(r => r.id !== rule.id))} className="text-slate-400 hover:text-red-600">
+                                        <Trash2 size={14} />
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    <div className="grid grid-cols-2 md:grid-cols-6 gap-2 items-end">
+                        <input
+                            type="text" placeholder="Cities (comma separated)"
+                            className="md:col-span-2 px-3 py-2 border border-slate-200 rounded-lg text-sm"
+                            value={draftRule.cities}
+                            onChange={(e) => setDraftRule(prev => ({ ...prev, cities: e.target.value }))}
+                        />
+                        <input
+                            type="number" placeholder="Min COD"
+                            className="px-3 py-2 border border-slate-200 rounded-lg text-sm"
+                            value={draftRule.min_cod}
+                            onChange={(e) => setDraftRule(prev => ({ ...prev, min_cod: e.target.value }))}
+                        />
+                        <input
+                            type="number" placeholder="Max COD"
+                            className="px-3 py-2 border border-slate-200 rounded-lg text-sm"
+                            value={draftRule.max_cod}
+                            onChange={(e) => setDraftRule(prev => ({ ...prev, max_cod: e.target.value }))}
+                        />
+                        <input
+                            type="number" step="0.1" placeholder="Max kg"
+                            className="px-3 py-2 border border-slate-200 rounded-lg text-sm"
+                            value={draftRule.max_weight_kg}
+                            onChange={(e) => setDraftRule(prev => ({ ...prev, max_weight_kg: e.target.value }))}
+                        />
+                        <div className="flex gap-2">
+                            <select
+                                className="flex-1 min-w-0 px-2 py-2 border border-slate-200 rounded-lg text-sm bg-white"
+                                value={draftRule.courier}
+                                onChange={(e) => setDraftRule(prev => ({ ...prev, courier: e.target.value as CourierName }))}
+                            >
+                                {bookableCouriers.map(c => <option key={c} value={c}>{c}</option>)}
+                            </select>
+                            <button onClick={handleAddRule} className="px-2 py-2 bg-white border border-slate-200 rounded-lg text-slate-600 hover:bg-slate-50">
+                                <Plus size={16} />
+                            </button>
+                        </div>
+                    </div>
+
+                    <div className="flex items-center justify-between mt-4 pt-4 border-t border-slate-100">
+                        <div className="flex items-center gap-2 text-sm text-slate-600">
+                            <span>Otherwise use</span>
+                            <select
+                                className="px-2 py-1.5 border border-slate-200 rounded-lg text-sm bg-white"
+                                value={fallbackCourier}
+                                onChange={(e) => setFallbackCourier(e.target.value as CourierName)}
+                            >
+                                {bookableCouriers.map(c => <option key={c} value={c}>{c}</option>)}
+                            </select>
+                        </div>
+                        <button
+                            onClick={handleApplyRules}
+                            disabled={isSubmitting}
+                            className="flex items-center gap-2 px-3 py-2 bg-white border border-slate-300 rounded-lg text-sm font-bold text-slate-700 hover:bg-slate-50 disabled:opacity-50"
+                        >
+                            <Wand2 size={16} className="text-indigo-600" /> Apply Rules
+                        </button>
+                    </div>
+                </div>
+
+                {/* Queue */}
+                <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+                    <table className="w-full text-left text-sm">
+                        <thead className="bg-slate-50 border-b border-gray-200">
+                            <tr>
+                                <th className="px-4 py-3 font-semibold text-slate-700">Order</th>
+                                <th className="px-4 py-3 font-semibold text-slate-700">City</th>
+                                <th className="px-4 py-3 font-semibold text-slate-700">COD</th>
+                                <th className="px-4 py-3 font-semibold text-slate-700">Weight</th>
+                                <th className="px-4 py-3 font-semibold text-slate-700">Courier</th>
+                                <th className="px-4 py-3 font-semibold text-slate-700">Result</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                            {orders.map(order => {
+                                const result = results[order.id];
+                                return (
+                                    <tr key={order.id}>
+                                        <td className="px-4 py-3 font-medium text-slate-900">{order.shopify_order_number}</td>
+                                        <td className="px-4 py-3 text-slate-600">{order.customer_city}</td>
+                                        <td className="px-4 py-3 text-slate-600">{formatCurrency(order.cod_amount)}</td>
+                                        <td className="px-4 py-3 text-slate-600">{getOrderWeight(order, products)} kg</td>
+                                        <td className="px-4 py-3">
+                                            <select
+                                                className="px-2 py-1 border border-slate-200 rounded-md text-xs bg-white disabled:bg-slate-50"
+                                                value={assignments[order.id]}
+                                                disabled={isSubmitting || result?.success}
+                                                onChange={(e) => setAssignments(prev => ({ ...prev, [order.id]: e.target.value as CourierName }))}
+                                            >
+                                                {bookableCouriers.map(c => <option key={c} value={c}>{c}</option>)}
+                                            </select>
+                                            {assignments[order.id] === CourierName.DAEWOO && (
+                                                <DaewooTerminalSelect
+                                                    terminals={daewooTerminals}
+                                                    value={getDaewooTerminal(order)}
+                                                    disabled={isSubmitting || result?.success}
+                                                    onChange={(id) => setTerminals(prev => ({ ...prev, [order.id]: id }))}
+                                                />
+                                            )}
+                                            {quotes[order.id]?.[0] && (
+                                                <div className="text-[10px] text-slate-400 mt-1">
+                                                    Best: {quotes[order.id][0].courier} · exp. {formatCurrency(quotes[order.id][0].expected_profit)}
+                                                </div>
+                                            )}
+                                        </td>
+                                        <td className="px-4 py-3 text-xs">
+                                            {result?.success && (
+                                                <span className="flex items-center gap-1 text-green-700 font-mono"><CheckCircle2 size={14} /> {result.tracking_number}</span>
+                                            )}
+                                            {result && !result.success && (
+                                                <span className="flex items-start gap-1 text-red-600 max-w-[240px] leading-tight"><XCircle size={14} className="shrink-0" /> {result.error}</span>
+                                            )}
+                                            {!result && <span className="text-slate-400">Queued</span>}
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+
+            {/* Footer */}
+            <div className="px-6 py-4 border-t border-slate-200 flex justify-end gap-2 shrink-0">
+                <button onClick={onClose} disabled={isSubmitting} className="px-4 py-2 text-sm font-bold text-slate-600 hover:bg-slate-100 rounded-lg disabled:opacity-50">
+                    Close
+                </button>
+                <button
+                    onClick={handleSubmit}
+                    disabled={isSubmitting || pendingOrders.length === 0}
+                    className="bg-brand-600 text-white px-4 py-2 rounded-lg text-sm font-bold hover:bg-brand-700 transition-colors flex items-center gap-2 disabled:opacity-50"
+                >
+                    {isSubmitting ? <Loader2 size={16} className="animate-spin" /> : <Truck size={16} />}
+                    {isSubmitting ? `Booking ${resultList.length}/${orders.length}...` : failedCount > 0 ? `Retry ${pendingOrders.length} Orders` : `Book ${pendingOrders.length} Orders`}
+                </button>
+            </div>
+        </div>
+    </div>
+  );
+};
+
+export default BulkBookingModal;
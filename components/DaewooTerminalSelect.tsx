@@ -0,0 +1,26 @@
+import React from 'react';
+import { CourierTerminal } from '../types';
+
+interface DaewooTerminalSelectProps {
+  terminals: CourierTerminal[];
+  value: string; // Terminal id, or '' when none is picked
+  disabled?: boolean;
+  onChange: (terminalId: string) => void;
+}
+
+// Destination terminal for a Daewoo booking; Daewoo rejects bookings without one
+const DaewooTerminalSelect: React.FC<DaewooTerminalSelectProps> = ({ terminals, value, disabled, onChange }) => (
+  <select
+    className={`mt-1 block w-full max-w-[180px] px-2 py-1 border rounded-md text-xs bg-white disabled:bg-slate-50 ${value ? 'border-slate-200' : 'border-amber-300 text-amber-700'}`}
+    value={value}
+    disabled={disabled || terminals.length === 0}
+    onChange={(e) => onChange(e.target.value)}
+  >
+    <option value="">{terminals.length === 0 ? 'No terminals loaded' : 'Pick destination terminal'}</option>
+    {terminals.map(t => (
+      <option key={t.id} value={t.id}>{t.name}{t.city && t.city !== t.name ? ` (${t.city})` : ''}</option>
+    ))}
+  </select>
+);
+
+export default DaewooTerminalSelect;
@@ -0,0 +1,94 @@
+import React, { useMemo, useState } from 'react';
+import { Order } from '../types';
+import { formatCurrency } from '../services/calculator';
+import { buildManifests, generateManifestPdf, generateManifestCsv, CourierManifest } from '../services/manifest';
+import { X, FileText, Download, CheckCircle2, ClipboardList } from 'lucide-react';
+
+interface ManifestModalProps {
+  orders: Order[]; // Booked orders awaiting pickup
+  storeName: string;
+  onMarkHandedOver: (orderIds: string[]) => Promise<void>;
+  onClose: () => void;
+}
+
+const ManifestModal: React.FC<ManifestModalProps> = ({ orders, storeName, onMarkHandedOver, onClose }) => {
+  const manifests = useMemo(() => buildManifests(orders), [orders]);
+  const [handedOver, setHandedOver] = useState<Set<string>>(new Set());
+
+  const handleHandOver = async (manifest: CourierManifest) => {
+      if (!window.confirm(`Mark ${manifest.orders.length} ${manifest.courier} shipments as handed over to the rider?`)) return;
+      await onMarkHandedOver(manifest.orders.map(o => o.id));
+      setHandedOver(prev => new Set(prev).add(manifest.courier));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm overflow-y-auto">
+        <div className="bg-white rounded-xl shadow-2xl w-full max-w-3xl border border-slate-200 flex flex-col max-h-[95vh]">
+            <div className="bg-slate-900 px-6 py-4 flex justify-between items-center shrink-0 rounded-t-xl">
+                <div>
+                    <h3 className="text-xl font-bold text-white flex items-center gap-2"><ClipboardList size={20} /> Pickup Load Sheets</h3>
+                    <p className="text-slate-400 text-xs mt-1 font-medium">{orders.length} booked shipments awaiting pickup</p>
+                </div>
+                <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors bg-slate-800 p-2 rounded-lg">
+                    <X size={20} />
+                </button>
+            </div>
+
+            <div className="p-6 overflow-y-auto bg-slate-50 space-y-4">
+                {manifests.length === 0 && (
+                    <p className="text-center text-slate-500 py-8">No booked shipments waiting for pickup.</p>
+                )}
+
+                {manifests.map(manifest => {
+                    const isDone = handedOver.has(manifest.courier);
+                    return (
+                        <div key={manifest.courier} className={`bg-white p-5 rounded-xl border shadow-sm ${isDone ? 'border-green-200' : 'border-slate-200'}`}>
+                            <div className="flex justify-between items-start gap-4">
+                                <div>
+                                    <h4 className="font-bold text-slate-900">{manifest.courier}</h4>
+                                    <p className="text-sm text-slate-500 mt-0.5">
+                                        {manifest.orders.length} shipments · COD {formatCurrency(manifest.total_cod)}
+                                    </p>
+                                </div>
+                                <div className="flex gap-2 shrink-0">
+                                    <button
+                                        onClick={() => generateManifestPdf(manifest, storeName)}
+                                        className="flex items-center gap-1.5 px-3 py-1.5 bg-white border border-slate-300 rounded-lg text-xs font-bold text-slate-700 hover:bg-slate-50"
+                                    >
+                                        <FileText size={14} /> PDF
+                                    </button>
+                                    <button
+                                        onClick={() => generateManifestCsv(manifest, storeName)}
+                                        className="flex items-center gap-1.5 px-3 py-1.5 bg-white border border-slate-300 rounded-lg text-xs font-bold text-slate-700 hover:bg-slate-50"
+                                    >
+                                        <Download size={14} /> CSV
+                                    </button>
+                                    {isDone ? (
+                                        <span className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-bold text-green-700">
+                                            <CheckCircle2 size={14} /> Handed Over
+                                        </span>
+                                    ) : (
+                                        <button
+                                            onClick={() => handleHandOver(manifest)}
+                                            className="bg-brand-600 text-white px-3 py-1.5 rounded-lg text-xs font-bold hover:bg-brand-700 transition-colors"
+                                        >
+                                            Mark Handed Over
+                                        </button>
+                                    )}
+                                </div>
+                            </div>
+                            <div className="mt-3 flex flex-wrap gap-1.5">
+                                {manifest.orders.map(o => (
+                                    <span key={o.id} className="text-[10px] font-mono bg-slate-100 text-slate-600 px-1.5 py-0.5 rounded">{o.tracking_number}</span>
+                                ))}
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    </div>
+  );
+};
+
+export default ManifestModal;
@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { Order, OrderStatus, PaymentStatus } from '../types';
+import { formatCurrency } from '../services/calculator';
+import { describeOrderItems } from '../services/couriers/consignee';
+import { X, MapPin, RefreshCw, Loader2, Package, Phone, User } from 'lucide-react';
+
+interface OrderDetailModalProps {
+  order: Order;
+  onTrackOrder?: (order: Order) => Promise<OrderStatus>;
+  onClose: () => void;
+}
+
+const OrderDetailModal: React.FC<OrderDetailModalProps> = ({ order, onTrackOrder, onClose }) => {
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const history = order.tracking_history || [];
+  const canTrack = !!onTrackOrder && !!order.tracking_number && order.tracking_number !== 'Pending';
+
+  const handleRefresh = async () => {
+      if (!onTrackOrder) return;
+      setIsRefreshing(true);
+      setError(null);
+      try {
+          await onTrackOrder(order);
+      } catch (e: any) {
+          setError(e.message || 'Tracking failed');
+      }
+      setIsRefreshing(false);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm overflow-y-auto">
+        <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl border border-slate-200 flex flex-col max-h-[95vh]">
+            <div className="bg-slate-900 px-6 py-4 flex justify-between items-center shrink-0 rounded-t-xl">
+                <div>
+                    <h3 className="text-xl font-bold text-white">{order.shopify_order_number}</h3>
+                    <p className="text-slate-400 text-xs mt-1 font-medium">
+                        {order.courier} · <span className="font-mono">{order.tracking_number}</span>
+                    </p>
+                </div>
+                <div className="flex gap-2">
+                    {canTrack && (
+                        <button
+                            onClick={handleRefresh}
+                            disabled={isRefreshing}
+                            className="bg-brand-600 text-white px-3 py-2 rounded-lg text-xs font-bold hover:bg-brand-700 transition-colors flex items-center gap-2 disabled:opacity-50"
+                        >
+                            {isRefreshing ? <Loader2 size={14} className="animate-spin" /> : <RefreshCw size={14} />}
+                            Refresh
+                        </button>
+                    )}
+                    <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors bg-slate-800 p-2 rounded-lg">
+                        <X size={20} />
+                    </button>
+                </div>
+            </div>
+
+            <div className="p-6 overflow-y-auto bg-slate-50 space-y-6">
+                {/* Consignee & Parcel */}
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm text-sm space-y-1.5">
+                        <p className="flex items-center gap-2 font-bold text-slate-900"><User size={14} className="text-slate-400" /> {order.customer_name || 'Unknown Customer'}</p>
+                        {order.customer_phone && <p className="flex items-center gap-2 text-slate-600"><Phone size={14} className="text-slate-400" /> {order.customer_phone}</p>}
+                        <p className="flex items-start gap-2 text-slate-600"><MapPin size={14} className="text-slate-400 mt-0.5 shrink-0" /> {[order.customer_address, order.customer_city].filter(Boolean).join(', ')}</p>
+                    </div>
+                    <div className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm text-sm space-y-1.5">
+                        <p className="flex items-center justify-between"><span className="text-slate-500">COD</span><span className="font-bold text-slate-900">{formatCurrency(order.cod_amount)}</span></p>
+                        <p className="flex items-center justify-between"><span className="text-slate-500">Status</span><span className="font-bold text-slate-900">{order.status.replace('_', ' ')}</span></p>
+                        {order.status === OrderStatus.DELIVERED && (
+                            <p className="flex items-center justify-between">
+                                <span className="text-slate-500">Payment</span>
+                                {order.payment_status === PaymentStatus.REMITTED ? (
+                                    <span className="font-bold text-green-700" title={order.settlement_reference ? `Ref ${order.settlement_reference}` : undefined}>
+                                        Remitted{order.settlement_date ? ` ${new Date(order.settlement_date).toLocaleDateString()}` : ''}
+                                    </span>
+                                ) : (
+                                    <span className="font-bold text-orange-600">With Courier</span>
+                                )}
+                            </p>
+                        )}
+                        <p className="flex items-start gap-2 text-slate-600 pt-1"><Package size={14} className="text-slate-400 mt-0.5 shrink-0" /> {describeOrderItems(order)}</p>
+                    </div>
+                </div>
+
+                {/* Timeline */}
+                <div className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm">
+                    <h4 className="text-sm font-bold text-slate-900 uppercase tracking-wide mb-4 border-b border-slate-100 pb-2">
+                        Tracking Timeline
+                    </h4>
+
+                    {error && <p className="text-xs text-red-600 mb-3">{error}</p>}
+
+                    {history.length === 0 ? (
+                        <p className="text-sm text-slate-500 text-center py-6">
+                            {canTrack ? 'No checkpoints yet. Refresh to pull the latest history from the courier.' : 'This order has not been booked yet.'}
+                        </p>
+                    ) : (
+                        <ol className="relative border-l-2 border-slate-200 ml-2 space-y-5">
+                            {history.map((c, idx) => (
+                                <li key={`${c.timestamp}-${idx}`} className="ml-5">
+                                    <span className={`absolute -left-[7px] w-3 h-3 rounded-full border-2 border-white ${idx === 0 ? 'bg-brand-600' : 'bg-slate-300'}`}></span>
+                                    <p className={`text-sm ${idx === 0 ? 'font-bold text-slate-900' : 'font-medium text-slate-700'}`}>{c.status}</p>
+                                    <p className="text-xs text-slate-500 mt-0.5">
+                                        {new Date(c.timestamp).toLocaleString()}
+                                        {c.location && <span> · {c.location}</span>}
+                                    </p>
+                                    {c.remarks && <p className="text-xs text-slate-400 mt-0.5 italic">{c.remarks}</p>}
+                                </li>
+                            ))}
+                        </ol>
+                    )}
+                </div>
+            </div>
+        </div>
+    </div>
+  );
+};
+
+export default OrderDetailModal;
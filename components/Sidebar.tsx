@@ -1,6 +1,6 @@
 
 import React from 'react';
-import { LayoutDashboard, ShoppingBag, Truck, BarChart3, Settings, TrendingUp, Plug, PackageSearch, GitCompare, LogOut, Radio } from 'lucide-react';
+import { LayoutDashboard, ShoppingBag, Truck, BarChart3, Settings, TrendingUp, Plug, PackageSearch, GitCompare, LogOut, Radio, ListChecks, PhoneMissed, Banknote, Hourglass } from 'lucide-react';
 import { supabase } from '../services/supabase';
 
 interface SidebarProps {
@@ -24,7 +24,11 @@ const Sidebar: React.FC<SidebarProps> = ({
     { id: 'inventory', label: 'Inventory & Costs', icon: PackageSearch },
     { id: 'orders', label: 'Orders & RTO', icon: ShoppingBag },
     { id: 'couriers', label: 'Courier Performance', icon: Truck },
+    { id: 'ndr', label: 'NDR Queue', icon: PhoneMissed },
+    { id: 'aging', label: 'Stuck Shipments', icon: Hourglass },
+    { id: 'remittances', label: 'COD Remittances', icon: Banknote },
     { id: 'tcs-debug', label: 'TCS Live Tracking', icon: Radio }, // New Item
+    { id: 'status-mappings', label: 'Status Mappings', icon: ListChecks },
     { id: 'profitability', label: 'Product Profitability', icon: TrendingUp },
     { id: 'marketing', label: 'Ad Spend', icon: BarChart3 },
     { id: 'integrations', label: 'Integrations', icon: Plug },
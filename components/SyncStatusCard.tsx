@@ -0,0 +1,131 @@
+import React, { useState, useEffect } from 'react';
+import { SyncRun, SyncRunStatus } from '../types';
+import { supabase } from '../services/supabase';
+import { RefreshCw, Loader2, CheckCircle2, AlertTriangle, XCircle, Clock, History } from 'lucide-react';
+
+interface SyncStatusCardProps {
+  onSynced?: () => void; // Reload app data once the server has written fresh orders
+}
+
+const STATUS_STYLES: Record<SyncRunStatus, { label: string, className: string, icon: React.ReactNode }> = {
+  RUNNING: { label: 'Running', className: 'bg-blue-50 text-blue-700 border-blue-200', icon: <Loader2 size={14} className="animate-spin" /> },
+  SUCCESS: { label: 'Synced', className: 'bg-green-50 text-green-700 border-green-200', icon: <CheckCircle2 size={14} /> },
+  PARTIAL: { label: 'Partial', className: 'bg-amber-50 text-amber-700 border-amber-200', icon: <AlertTriangle size={14} /> },
+  FAILED: { label: 'Failed', className: 'bg-red-50 text-red-700 border-red-200', icon: <XCircle size={14} /> }
+};
+
+const formatRunTime = (iso?: string) => iso ? new Date(iso).toLocaleString('en-PK', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' }) : '-';
+
+const SyncStatusCard: React.FC<SyncStatusCardProps> = ({ onSynced }) => {
+  const [runs, setRuns] = useState<SyncRun[]>([]);
+  const [syncing, setSyncing] = useState<'incremental' | 'full' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRuns = async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.user) return;
+    const { data } = await supabase.from('sync_runs').select('*').eq('user_id', session.user.id).order('started_at', { ascending: false }).limit(5);
+    if (data) setRuns(data.map((r: any) => ({ ...r, errors: r.errors || [] })));
+  };
+
+  useEffect(() => {
+    loadRuns();
+  }, []);
+
+  // A full resync ignores the Shopify watermark and re-fetches the whole order window (slow on large stores)
+  const handleSync = async (fullResync: boolean) => {
+    setSyncing(fullResync ? 'full' : 'incremental');
+    setError(null);
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) throw new Error('Please sign in again.');
+
+      const res = await fetch('/api/sync', {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${session.access_token}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ full_resync: fullResync })
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json.error || `Sync failed (${res.status})`);
+
+      await loadRuns();
+      if (json.status !== 'RUNNING' && onSynced) onSynced();
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      setSyncing(null);
+    }
+  };
+
+  const latest = runs[0];
+
+  return (
+    <section className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <Clock className="text-slate-500" size={20} /> Background Sync
+          </h3>
+          <p className="text-sm text-slate-500 mt-1">Shopify, courier and ad data are pulled on the server every 6 hours, even when the app is closed.</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => handleSync(true)}
+            disabled={!!syncing}
+            title="Re-fetch every Shopify order in the last 120 days instead of only the changed ones"
+            className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-200 text-slate-700 text-sm font-semibold rounded-lg hover:bg-slate-50 disabled:opacity-50"
+          >
+            {syncing === 'full' ? <Loader2 size={16} className="animate-spin" /> : <History size={16} />}
+            Full Resync
+          </button>
+          <button
+            onClick={() => handleSync(false)}
+            disabled={!!syncing}
+            className="flex items-center gap-2 px-4 py-2 bg-slate-900 text-white text-sm font-semibold rounded-lg hover:bg-slate-800 disabled:opacity-50"
+          >
+            {syncing === 'incremental' ? <Loader2 size={16} className="animate-spin" /> : <RefreshCw size={16} />}
+            {syncing === 'incremental' ? 'Syncing...' : 'Sync Now'}
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="mt-4 text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg p-3">{error}</p>}
+
+      {latest ? (
+        <div className="mt-5 space-y-3">
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            <span className={`inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full border text-xs font-semibold ${STATUS_STYLES[latest.status].className}`}>
+              {STATUS_STYLES[latest.status].icon} {STATUS_STYLES[latest.status].label}
+            </span>
+            <span className="text-slate-600">
+              Last run {formatRunTime(latest.started_at)} ({latest.trigger === 'SCHEDULE' ? 'scheduled' : 'manual'}{latest.full_resync ? ', full resync' : ''})
+            </span>
+            {latest.status !== 'RUNNING' && (
+              <span className="text-slate-500">
+                {latest.shopify_orders} Shopify orders changed · {latest.courier_orders} courier orders · {latest.ad_rows} ad rows
+              </span>
+            )}
+          </div>
+          {latest.errors.length > 0 && (
+            <ul className="text-xs text-amber-800 bg-amber-50 border border-amber-200 rounded-lg p-3 space-y-1">
+              {latest.errors.map((e, i) => <li key={i}>{e}</li>)}
+            </ul>
+          )}
+          {runs.length > 1 && (
+            <div className="flex flex-wrap gap-2 pt-1">
+              {runs.slice(1).map(r => (
+                <span key={r.id} className={`px-2 py-0.5 rounded-full border text-[11px] font-medium ${STATUS_STYLES[r.status].className}`}>
+                  {formatRunTime(r.started_at)} · {STATUS_STYLES[r.status].label}
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+      ) : (
+        <p className="mt-5 text-sm text-slate-400">No background sync has run yet.</p>
+      )}
+    </section>
+  );
+};
+
+export default SyncStatusCard;
@@ -1,8 +1,8 @@
 
-import { CourierName } from './types';
+import { CourierName, CourierRateCard } from './types.js';
 
 // Average shipping rates in Pakistan (PKR) used for simulation
-export const COURIER_RATES = {
+export const COURIER_RATES: Record<CourierName, CourierRateCard> = {
   [CourierName.TRAX]: { forward: 180, rto: 90 },
   [CourierName.LEOPARDS]: { forward: 200, rto: 100 },
   [CourierName.TCS]: { forward: 250, rto: 0 }, // TCS sometimes charges full upfront
@@ -14,11 +14,52 @@ export const COURIER_RATES = {
 
 export const PACKAGING_COST_AVG = 45; // Polybag + Flyer
 
+export const DEFAULT_PARCEL_WEIGHT_KG = 0.5; // Used when Shopify has no item weights
+
+export const DEFAULT_SLA_DAYS = 4; // Dispatch-to-delivery target until the user sets their own
+
+export const STALE_TRACKING_DAYS = 5; // No courier scan for this long and a parcel is probably lost
+export const RTO_RECEIPT_DAYS = 10; // Returns should be back in the warehouse within this many days
+
+export const USD_TO_PKR_RATE = 278; // TikTok reports spend in USD; the Marketing page lets the user adjust it
+
 export const CITIES = [
   'Karachi', 'Lahore', 'Islamabad', 'Rawalpindi', 'Faisalabad', 
   'Multan', 'Peshawar', 'Quetta', 'Sialkot', 'Gujranwala'
 ];
 
+// Courier tariff zones: Sindh & Balochistan (South), Punjab (Central), Islamabad, KP, AJK & GB (North)
+export const CITY_ZONES: Record<string, 'SOUTH' | 'CENTRAL' | 'NORTH'> = {
+  'karachi': 'SOUTH', 'hyderabad': 'SOUTH', 'sukkur': 'SOUTH', 'larkana': 'SOUTH', 'nawabshah': 'SOUTH',
+  'mirpur khas': 'SOUTH', 'jacobabad': 'SOUTH', 'thatta': 'SOUTH', 'quetta': 'SOUTH', 'gwadar': 'SOUTH',
+  'turbat': 'SOUTH', 'khuzdar': 'SOUTH', 'hub': 'SOUTH',
+  'lahore': 'CENTRAL', 'faisalabad': 'CENTRAL', 'multan': 'CENTRAL', 'gujranwala': 'CENTRAL', 'sialkot': 'CENTRAL',
+  'sargodha': 'CENTRAL', 'bahawalpur': 'CENTRAL', 'sheikhupura': 'CENTRAL', 'gujrat': 'CENTRAL', 'sahiwal': 'CENTRAL',
+  'kasur': 'CENTRAL', 'okara': 'CENTRAL', 'rahim yar khan': 'CENTRAL', 'dera ghazi khan': 'CENTRAL', 'jhang': 'CENTRAL',
+  'islamabad': 'NORTH', 'rawalpindi': 'NORTH', 'peshawar': 'NORTH', 'abbottabad': 'NORTH', 'mardan': 'NORTH',
+  'swat': 'NORTH', 'mingora': 'NORTH', 'kohat': 'NORTH', 'wah cantt': 'NORTH', 'taxila': 'NORTH', 'attock': 'NORTH',
+  'jhelum': 'NORTH', 'chakwal': 'NORTH', 'muzaffarabad': 'NORTH', 'mirpur': 'NORTH', 'gilgit': 'NORTH',
+  'skardu': 'NORTH', 'dera ismail khan': 'NORTH', 'bannu': 'NORTH'
+};
+
+// Abbreviations and misspellings seen on checkouts and courier portals -> normalized city key
+export const CITY_ALIASES: Record<string, string> = {
+  'lhr': 'lahore', 'lahor': 'lahore', 'lahore cantt': 'lahore',
+  'khi': 'karachi', 'krachi': 'karachi', 'karachi city': 'karachi',
+  'isb': 'islamabad', 'isl': 'islamabad', 'islamabad capital territory': 'islamabad',
+  'rwp': 'rawalpindi', 'pindi': 'rawalpindi', 'rawalpindi cantt': 'rawalpindi',
+  'fsd': 'faisalabad', 'faislabad': 'faisalabad', 'lyallpur': 'faisalabad',
+  'mux': 'multan', 'mltn': 'multan',
+  'pew': 'peshawar', 'pesh': 'peshawar', 'peshawer': 'peshawar',
+  'uet': 'quetta', 'qta': 'quetta',
+  'skt': 'sialkot', 'grw': 'gujranwala', 'gujranwla': 'gujranwala',
+  'hyd': 'hyderabad', 'hdd': 'hyderabad',
+  'bwp': 'bahawalpur', 'ryk': 'rahim yar khan',
+  'dg khan': 'dera ghazi khan', 'd g khan': 'dera ghazi khan',
+  'di khan': 'dera ismail khan', 'd i khan': 'dera ismail khan',
+  'wah': 'wah cantt', 'abbotabad': 'abbottabad', 'atd': 'abbottabad'
+};
+
 export const MOCK_PRODUCTS = [
   { title: 'Wireless Earbuds Pro', sku: 'AUDIO-001', cogs: 1200, price: 3500 },
   { title: 'Smart Watch Gen 5', sku: 'WEAR-005', cogs: 2500, price: 6500 },
@@ -1,14 +1,32 @@
 
 import React, { useMemo, useState } from 'react';
 import { Order } from '../types';
-import { calculateCourierPerformance, formatCurrency } from '../services/calculator';
-import { Truck, AlertCircle, CheckCircle2, Banknote, Calendar, Package, Clock, Box } from 'lucide-react';
+import { calculateCourierPerformance, calculateCityCourierPerformance, CityCourierStats, formatCurrency, getStuckShipments } from '../services/calculator';
+import { DEFAULT_SLA_DAYS } from '../constants';
+import { formatCityName } from '../services/cities';
+import { Truck, AlertCircle, CheckCircle2, Banknote, Calendar, Package, Clock, Box, Receipt, MapPin, Search, Timer, Hourglass } from 'lucide-react';
 
 interface CouriersProps {
   orders: Order[];
+  slaDays?: number; // Dispatch-to-delivery target from Settings
 }
 
-const Couriers: React.FC<CouriersProps> = ({ orders }) => {
+type CityMetric = 'delivery_rate' | 'rto_rate' | 'avg_delivery_days' | 'cash_pending';
+
+const CITY_METRICS: { id: CityMetric; label: string }[] = [
+  { id: 'delivery_rate', label: 'Delivery Rate' },
+  { id: 'rto_rate', label: 'RTO Rate' },
+  { id: 'avg_delivery_days', label: 'Avg Days to Deliver' },
+  { id: 'cash_pending', label: 'Cash Pending' }
+];
+
+// Cities shown before "Show all"
+const CITY_ROW_LIMIT = 20;
+
+// Formats a duration in days, e.g. 2.5d
+const formatDays = (days: number | null) => days === null ? '—' : `${days.toFixed(1)}d`;
+
+const Couriers: React.FC<CouriersProps> = ({ orders, slaDays = DEFAULT_SLA_DAYS }) => {
   // Default to Last 60 Days
   const [dateRange, setDateRange] = useState(() => {
     const end = new Date();
@@ -32,9 +50,38 @@ const Couriers: React.FC<CouriersProps> = ({ orders }) => {
     });
   }, [orders, dateRange]);
 
-  const stats = useMemo(() => calculateCourierPerformance(filteredOrders), [filteredOrders]);
+  const stats = useMemo(() => calculateCourierPerformance(filteredOrders, slaDays), [filteredOrders, slaDays]);
+  // Not limited to the date range: an old parcel still in transit is the most urgent
+  const stuckShipments = useMemo(() => getStuckShipments(orders, slaDays), [orders, slaDays]);
   const totalVolume = filteredOrders.length;
 
+  const [cityMetric, setCityMetric] = useState<CityMetric>('delivery_rate');
+  const [citySearch, setCitySearch] = useState('');
+  const [showAllCities, setShowAllCities] = useState(false);
+
+  // Courier x city matrix: couriers as columns (by volume), cities as rows (by volume)
+  const cityMatrix = useMemo(() => {
+    const cells = calculateCityCourierPerformance(filteredOrders);
+    const courierVolume: Record<string, number> = {};
+    const cityVolume: Record<string, number> = {};
+    cells.forEach(c => {
+        courierVolume[c.name] = (courierVolume[c.name] || 0) + c.total_orders;
+        cityVolume[c.city] = (cityVolume[c.city] || 0) + c.total_orders;
+    });
+
+    const term = citySearch.trim().toLowerCase();
+    return {
+        couriers: Object.keys(courierVolume).sort((a, b) => courierVolume[b] - courierVolume[a]),
+        cities: Object.keys(cityVolume)
+            .filter(city => !term || city.includes(term))
+            .sort((a, b) => cityVolume[b] - cityVolume[a]),
+        cityVolume,
+        lookup: new Map(cells.map(c => [`${c.city}|${c.name}`, c]))
+    };
+  }, [filteredOrders, citySearch]);
+
+  const visibleCities = showAllCities ? cityMatrix.cities : cityMatrix.cities.slice(0, CITY_ROW_LIMIT);
+
   return (
     <div className="space-y-6">
       <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
@@ -127,7 +174,44 @@ const Couriers: React.FC<CouriersProps> = ({ orders }) => {
                     </span>
                   </div>
                 </div>
-                
+
+                {courier.median_delivery_days !== null && (
+                  <div className="flex justify-between items-center text-sm">
+                    <span className="text-slate-500 flex items-center gap-2">
+                      <Timer size={14} /> Delivery Time
+                    </span>
+                    <div className="text-right">
+                      <span className="font-medium block">{formatDays(courier.median_delivery_days)} <span className="text-slate-400 font-normal">median</span></span>
+                      <span className={`text-[10px] ${courier.late_rate > 20 ? 'text-red-500' : 'text-slate-400'}`}>
+                          p90 {formatDays(courier.p90_delivery_days)} · {courier.late_rate.toFixed(0)}% late
+                      </span>
+                    </div>
+                  </div>
+                )}
+
+                {courier.median_return_days !== null && (
+                  <div className="flex justify-between items-center text-sm">
+                    <span className="text-slate-500 flex items-center gap-2">
+                      <Timer size={14} /> Return Time
+                    </span>
+                    <span className="font-medium">{formatDays(courier.median_return_days)} <span className="text-slate-400 font-normal">median</span></span>
+                  </div>
+                )}
+
+                {courier.invoiced_orders > 0 && (
+                  <div className="flex justify-between items-center text-sm">
+                    <span className="text-slate-500 flex items-center gap-2">
+                      <Receipt size={14} /> Billed vs Rate Card
+                    </span>
+                    <div className="text-right">
+                      <span className={`font-medium block ${courier.charge_variance > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                          {courier.charge_variance > 0 ? '+' : ''}{formatCurrency(courier.charge_variance)}
+                      </span>
+                      <span className="text-[10px] text-slate-400">{courier.invoiced_orders} invoiced</span>
+                    </div>
+                  </div>
+                )}
+
                 <div className="w-full bg-slate-100 h-1.5 rounded-full mt-2">
                     <div 
                         className={`h-1.5 rounded-full ${courier.delivery_rate >= 80 ? 'bg-green-500' : 'bg-orange-500'}`} 
@@ -147,8 +231,158 @@ const Couriers: React.FC<CouriersProps> = ({ orders }) => {
           </div>
         ))}
       </div>
+
+      {/* Stuck Beyond SLA */}
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="p-4 border-b border-slate-200 flex justify-between items-center">
+            <h3 className="font-bold text-slate-800 flex items-center gap-2">
+                <Hourglass size={18} className="text-orange-500" /> Stuck in Transit
+                <span className="text-xs font-medium text-slate-400">over {slaDays} days since dispatch</span>
+            </h3>
+            <span className={`px-2 py-0.5 rounded-full text-xs font-bold ${stuckShipments.length > 0 ? 'bg-orange-100 text-orange-700' : 'bg-green-100 text-green-700'}`}>
+                {stuckShipments.length} parcels
+            </span>
+        </div>
+        {stuckShipments.length === 0 ? (
+            <p className="text-sm text-slate-500 text-center py-8">Every in-transit parcel is within the SLA.</p>
+        ) : (
+            <div className="overflow-x-auto max-h-96">
+                <table className="w-full text-sm text-left">
+                    <thead className="bg-slate-50 border-b border-slate-200 sticky top-0">
+                        <tr>
+                            <th className="px-4 py-3 font-semibold text-slate-700">Order</th>
+                            <th className="px-4 py-3 font-semibold text-slate-700">Courier</th>
+                            <th className="px-4 py-3 font-semibold text-slate-700">City</th>
+                            <th className="px-4 py-3 font-semibold text-slate-700">Last Status</th>
+                            <th className="px-4 py-3 font-semibold text-slate-700 text-right">Days</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100">
+                        {stuckShipments.map(({ order, days_in_transit }) => (
+                            <tr key={order.id} className="hover:bg-slate-50">
+                                <td className="px-4 py-2.5">
+                                    <span className="font-medium text-slate-900">{order.shopify_order_number}</span>
+                                    <span className="block text-[10px] text-slate-400 font-mono">{order.tracking_number}</span>
+                                </td>
+                                <td className="px-4 py-2.5 text-slate-600">{order.courier}</td>
+                                <td className="px-4 py-2.5 text-slate-600">{order.customer_city}</td>
+                                <td className="px-4 py-2.5 text-slate-600 text-xs">
+                                    {order.courier_raw_status || order.status}
+                                    {order.tracking_history?.[0] && (
+                                        <span className="block text-[10px] text-slate-400">{new Date(order.tracking_history[0].timestamp).toLocaleDateString()}</span>
+                                    )}
+                                </td>
+                                <td className={`px-4 py-2.5 text-right font-bold ${days_in_transit > slaDays * 2 ? 'text-red-600' : 'text-orange-600'}`}>
+                                    {Math.floor(days_in_transit)}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        )}
+      </div>
+
+      {/* City Breakdown */}
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="p-4 border-b border-slate-200 flex flex-col md:flex-row justify-between items-start md:items-center gap-3">
+            <h3 className="font-bold text-slate-800 flex items-center gap-2"><MapPin size={18} className="text-slate-500" /> Performance by City</h3>
+            <div className="flex items-center gap-2">
+                <div className="relative">
+                    <Search className="absolute left-2.5 top-2 text-slate-400" size={14} />
+                    <input
+                        type="text"
+                        placeholder="Search city..."
+                        className="pl-8 pr-3 py-1.5 border border-slate-200 rounded-lg text-sm w-40"
+                        value={citySearch}
+                        onChange={(e) => setCitySearch(e.target.value)}
+                    />
+                </div>
+                <select
+                    className="px-2 py-1.5 border border-slate-200 rounded-lg text-sm bg-white"
+                    value={cityMetric}
+                    onChange={(e) => setCityMetric(e.target.value as CityMetric)}
+                >
+                    {CITY_METRICS.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+                </select>
+            </div>
+        </div>
+
+        {cityMatrix.cities.length === 0 ? (
+            <p className="text-sm text-slate-500 text-center py-10">No dispatched orders in this period.</p>
+        ) : (
+            <div className="overflow-x-auto">
+                <table className="w-full text-sm text-left">
+                    <thead className="bg-slate-50 border-b border-slate-200">
+                        <tr>
+                            <th className="px-4 py-3 font-semibold text-slate-700">City</th>
+                            {cityMatrix.couriers.map(c => <th key={c} className="px-4 py-3 font-semibold text-slate-700 text-center">{c}</th>)}
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100">
+                        {visibleCities.map(city => (
+                            <tr key={city} className="hover:bg-slate-50">
+                                <td className="px-4 py-2.5">
+                                    <span className="font-medium text-slate-900">{formatCityName(city)}</span>
+                                    <span className="text-[10px] text-slate-400 ml-2">{cityMatrix.cityVolume[city]} orders</span>
+                                </td>
+                                {cityMatrix.couriers.map(courier => (
+                                    <td key={courier} className="px-4 py-2.5 text-center">
+                                        <CityCell stat={cityMatrix.lookup.get(`${city}|${courier}`)} metric={cityMetric} />
+                                    </td>
+                                ))}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        )}
+
+        {cityMatrix.cities.length > CITY_ROW_LIMIT && (
+            <div className="p-3 border-t border-slate-100 text-center">
+                <button onClick={() => setShowAllCities(prev => !prev)} className="text-xs font-bold text-brand-600 hover:text-brand-700">
+                    {showAllCities ? 'Show top cities' : `Show all ${cityMatrix.cities.length} cities`}
+                </button>
+            </div>
+        )}
+      </div>
     </div>
   );
 };
 
+// One courier/city pair; hover for every metric
+const CityCell = ({ stat, metric }: { stat?: CityCourierStats; metric: CityMetric }) => {
+    if (!stat) return <span className="text-slate-300">—</span>;
+
+    const summary = [
+        `${stat.total_orders} dispatched`,
+        `${stat.delivery_rate.toFixed(1)}% delivered`,
+        `${stat.rto_rate.toFixed(1)}% RTO`,
+        stat.avg_delivery_days !== null ? `${stat.avg_delivery_days.toFixed(1)} days to deliver` : 'No delivery times yet',
+        `${formatCurrency(stat.cash_pending)} pending`
+    ].join('\n');
+
+    let value: string;
+    let tone = 'text-slate-700';
+    if (metric === 'delivery_rate') {
+        const closed = stat.delivered + stat.rto;
+        value = closed > 0 ? `${stat.delivery_rate.toFixed(0)}%` : '—';
+        tone = closed === 0 ? 'text-slate-300' : stat.delivery_rate >= 80 ? 'text-green-700' : stat.delivery_rate >= 60 ? 'text-yellow-700' : 'text-red-600';
+    } else if (metric === 'rto_rate') {
+        value = `${stat.rto_rate.toFixed(0)}%`;
+        tone = stat.rto_rate >= 30 ? 'text-red-600' : stat.rto_rate >= 15 ? 'text-yellow-700' : 'text-green-700';
+    } else if (metric === 'avg_delivery_days') {
+        value = stat.avg_delivery_days !== null ? `${stat.avg_delivery_days.toFixed(1)}d` : '—';
+    } else {
+        value = formatCurrency(stat.cash_pending);
+    }
+
+    return (
+        <div className="cursor-help" title={summary}>
+            <span className={`font-bold ${tone}`}>{value}</span>
+            <span className="block text-[10px] text-slate-400">{stat.total_orders}</span>
+        </div>
+    );
+};
+
 export default Couriers;
@@ -1,7 +1,7 @@
 
 import React, { useMemo, useState } from 'react';
 import { Order, AdSpend, DashboardMetrics, OrderStatus, ShopifyOrder } from '../types';
-import { calculateMetrics, formatCurrency } from '../services/calculator';
+import { calculateMetrics, formatCurrency, getCourierCharges } from '../services/calculator';
 import KPICard from '../components/KPICard';
 import ProfitChart from '../components/ProfitChart';
 import jsPDF from 'jspdf';
@@ -124,7 +124,7 @@ const Dashboard: React.FC<DashboardProps> = ({ orders, shopifyOrders = [], adSpe
              }
              
              if (isDispatched) {
-                 const shipping = o.courier_fee + o.packaging_cost + o.rto_penalty + o.overhead_cost;
+                 const shipping = getCourierCharges(o) + o.packaging_cost + o.overhead_cost;
                  const cogs = o.items.reduce((sum, item) => sum + (item.cogs_at_time_of_order * item.quantity), 0);
                  const tax = o.tax_amount || 0;
                  
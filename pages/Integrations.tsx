@@ -1,16 +1,16 @@
 
 import React, { useState, useEffect } from 'react';
-import { CourierName, CourierConfig, SalesChannel, MarketingConfig } from '../types';
-import { PostExAdapter } from '../services/couriers/postex';
-import { TcsAdapter } from '../services/couriers/tcs';
-import { DaewooAdapter } from '../services/couriers/daewoo';
+import { CourierName, CourierConfig, IntegrationConfig, SalesChannel, MarketingConfig, CourierTerminal } from '../types';
+import { getCourierAdapter, getCourierCapabilities } from '../services/couriers/registry';
+import { getDefaultStatusMappings } from '../services/statusMappings';
 import { ShopifyAdapter } from '../services/shopify';
 import { FacebookService } from '../services/facebook';
 import { TikTokService } from '../services/tiktok';
 import { supabase } from '../services/supabase';
+import SyncStatusCard from '../components/SyncStatusCard';
 import { 
     CheckCircle2, AlertTriangle, Key, Globe, Loader2, Store, ArrowRight, 
-    RefreshCw, ShieldCheck, Link, Truck, Info, Settings, Facebook, ExternalLink, Zap, Lock, Grid, CreditCard, User, CheckSquare, Square, ToggleLeft, ToggleRight
+    RefreshCw, ShieldCheck, Link, Truck, Info, Settings, Facebook, ExternalLink, Zap, Grid, CreditCard, User, CheckSquare, Square, ToggleLeft, ToggleRight
 } from 'lucide-react';
 
 const COURIER_META: Record<string, { color: string, bg: string, border: string, icon: string, label: string, desc: string }> = {
@@ -20,11 +20,11 @@ const COURIER_META: Record<string, { color: string, bg: string, border: string,
     },
     [CourierName.TRAX]: { 
         color: 'text-orange-700', bg: 'bg-orange-50', border: 'border-orange-200', icon: 'TX', label: 'Trax',
-        desc: 'Logistics & COD management integration.'
+        desc: 'Sonic API integration for live tracking and bookings.'
     },
     [CourierName.LEOPARDS]: { 
         color: 'text-red-700', bg: 'bg-red-50', border: 'border-red-200', icon: 'LP', label: 'Leopards',
-        desc: 'Nationwide tracking and COD reconciliation.'
+        desc: 'Bulk tracking, bookings and COD reconciliation.'
     },
     [CourierName.TCS]: { 
         color: 'text-red-900', bg: 'bg-red-50', border: 'border-red-200', icon: 'TCS', label: 'TCS',
@@ -48,9 +48,9 @@ const COURIER_META: Record<string, { color: string, bg: string, border: string,
 const ORDERED_COURIERS = [
     CourierName.POSTEX,
     CourierName.TCS,
+    CourierName.LEOPARDS,
     CourierName.DAEWOO, // Added Daewoo here
     CourierName.TRAX,
-    CourierName.LEOPARDS,
     CourierName.MNP,
     CourierName.CALLCOURIER
 ];
@@ -68,7 +68,7 @@ const Integrations: React.FC<IntegrationsProps> = ({ onConfigUpdate }) => {
   const [courierConfigs, setCourierConfigs] = useState<Record<string, CourierConfig>>(() => {
     const initial: Record<string, CourierConfig> = {};
     Object.values(CourierName).forEach(name => {
-        initial[name] = { id: '', courier_id: name, api_token: '', username: '', password: '', merchant_id: '', is_active: false };
+        initial[name] = { id: '', courier_id: name, api_token: '', username: '', password: '', merchant_id: '', origin_city: '', origin_terminal_id: '', is_active: false };
     });
     return initial;
   });
@@ -91,6 +91,10 @@ const Integrations: React.FC<IntegrationsProps> = ({ onConfigUpdate }) => {
   const [testingConnection, setTestingConnection] = useState<string | null>(null);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
 
+  // Daewoo origin terminal picker
+  const [daewooTerminals, setDaewooTerminals] = useState<CourierTerminal[]>([]);
+  const [loadingTerminals, setLoadingTerminals] = useState(false);
+
   useEffect(() => {
     const loadConfigs = async () => {
         setLoading(true);
@@ -114,6 +118,8 @@ const Integrations: React.FC<IntegrationsProps> = ({ onConfigUpdate }) => {
                                 username: conf.username || '',
                                 password: conf.password || '',
                                 merchant_id: conf.merchant_id || '',
+                                origin_city: conf.origin_city || '',
+                                origin_terminal_id: conf.origin_terminal_id || '',
                                 is_active: conf.is_active, 
                                 courier_id: cName 
                             };
@@ -368,6 +374,8 @@ const Integrations: React.FC<IntegrationsProps> = ({ onConfigUpdate }) => {
             username: config.username,
             password: config.password,
             merchant_id: config.merchant_id,
+            origin_city: config.origin_city,
+            origin_terminal_id: config.origin_terminal_id || null,
             is_active: isActive 
         };
 
@@ -402,6 +410,15 @@ const Integrations: React.FC<IntegrationsProps> = ({ onConfigUpdate }) => {
                 throw new Error(error.message);
             }
 
+            // First connection: start the status mapping table from the adapter's classification, keeping any rows the user already has
+            if (!existing || existing.length === 0) {
+                const seed = getDefaultStatusMappings(courierId as CourierName).map(m => ({ user_id: session.user.id, ...m }));
+                const { error: seedError } = await supabase
+                    .from('courier_status_mappings')
+                    .upsert(seed, { onConflict: 'user_id,courier,raw_status', ignoreDuplicates: true });
+                if (seedError) setErrorMessage(`Default status mappings could not be loaded: ${seedError.message}. Use Load Defaults on the Status Mappings page.`);
+            }
+
             // 4. Trigger Refresh
             if (onConfigUpdate) onConfigUpdate();
 
@@ -418,19 +435,8 @@ const Integrations: React.FC<IntegrationsProps> = ({ onConfigUpdate }) => {
     setErrorMessage(null);
     
     try {
-        let success = false;
         const config = { ...courierConfigs[courierName], is_active: true };
-
-        if (courierName === CourierName.POSTEX) {
-            const adapter = new PostExAdapter();
-            success = await adapter.testConnection(config as any);
-        } else if (courierName === CourierName.TCS) {
-            const adapter = new TcsAdapter();
-            success = await adapter.testConnection(config as any);
-        } else if (courierName === CourierName.DAEWOO) {
-            const adapter = new DaewooAdapter();
-            success = await adapter.testConnection(config as any);
-        }
+        const success = await getCourierAdapter(courierName as CourierName).testConnection(config as any);
 
         if (!success) throw new Error("Connection check failed"); 
         
@@ -451,6 +457,24 @@ const Integrations: React.FC<IntegrationsProps> = ({ onConfigUpdate }) => {
     }
   };
 
+  const handleLoadDaewooTerminals = async () => {
+    setLoadingTerminals(true);
+    setErrorMessage(null);
+
+    try {
+        const config: IntegrationConfig = { ...courierConfigs[CourierName.DAEWOO], provider_id: CourierName.DAEWOO };
+        const adapter = getCourierAdapter(CourierName.DAEWOO);
+        if (!getCourierCapabilities(CourierName.DAEWOO).canListTerminals || !adapter.getTerminals) throw new Error("Terminal lookup is not supported.");
+        const terminals = await adapter.getTerminals(config);
+        if (terminals.length === 0) throw new Error("No terminals returned. Check your API credentials.");
+        setDaewooTerminals(terminals.sort((a, b) => a.name.localeCompare(b.name)));
+    } catch (e: any) {
+        setErrorMessage(`Daewoo Terminals: ${e.message}`);
+    } finally {
+        setLoadingTerminals(false);
+    }
+  };
+
   return (
     <div className="space-y-8 max-w-6xl mx-auto pb-12">
       <div className="flex justify-between items-center pb-6 border-b border-slate-200">
@@ -472,6 +496,8 @@ const Integrations: React.FC<IntegrationsProps> = ({ onConfigUpdate }) => {
            </div>
       )}
 
+      <SyncStatusCard onSynced={onConfigUpdate} />
+
       {/* CORE PLATFORMS GRID (Shopify, FB, TikTok) */}
       <section>
           <h3 className="text-lg font-bold text-slate-800 mb-4 flex items-center gap-2">
@@ -680,22 +706,15 @@ const Integrations: React.FC<IntegrationsProps> = ({ onConfigUpdate }) => {
                 const config = courierConfigs[courierName];
                 const meta = COURIER_META[courierName];
                 const isActive = config.is_active;
-                // Add Daewoo to supported list
-                const isComingSoon = courierName !== CourierName.POSTEX && courierName !== CourierName.TCS && courierName !== CourierName.DAEWOO;
-
                 const isTCS = courierName === CourierName.TCS;
                 const isDaewoo = courierName === CourierName.DAEWOO;
+                const isTrax = courierName === CourierName.TRAX;
+                const isLeopards = courierName === CourierName.LEOPARDS;
+                const isMnp = courierName === CourierName.MNP;
+                const isCallCourier = courierName === CourierName.CALLCOURIER;
 
                 return (
                     <div key={courierName} className={`relative overflow-hidden rounded-xl border transition-all duration-300 flex flex-col ${isActive ? `${meta.bg} ${meta.border} shadow-sm` : 'bg-white border-slate-200 shadow-sm hover:shadow-md'}`}>
-                        {/* Coming Soon Overlay */}
-                        {isComingSoon && (
-                            <div className="absolute inset-0 bg-white/60 backdrop-blur-[1px] z-10 flex flex-col items-center justify-center text-slate-500">
-                                <Lock size={24} className="mb-2 opacity-50" />
-                                <span className="text-sm font-bold bg-slate-100 px-3 py-1 rounded-full border border-slate-200">Coming Soon</span>
-                            </div>
-                        )}
-                        
                         <div className="p-6 flex-1">
                             <div className="flex justify-between items-start mb-4">
                                 <div className="flex items-center gap-3">
@@ -731,6 +750,16 @@ const Integrations: React.FC<IntegrationsProps> = ({ onConfigUpdate }) => {
                                                     onChange={(e) => setCourierConfigs(prev => ({ ...prev, [courierName]: { ...prev[courierName], api_token: e.target.value } }))} 
                                                 />
                                             </div>
+                                            <div className="space-y-1">
+                                                <label className="text-xs font-bold text-slate-500 ml-1">Origin City (For Bookings)</label>
+                                                <input 
+                                                    type="text"
+                                                    className="w-full px-3 py-2 border border-slate-200 rounded-lg text-sm" 
+                                                    placeholder="e.g. Lahore" 
+                                                    value={config.origin_city || ''} 
+                                                    onChange={(e) => setCourierConfigs(prev => ({ ...prev, [courierName]: { ...prev[courierName], origin_city: e.target.value } }))} 
+                                                />
+                                            </div>
                                         </>
                                     )}
 
@@ -766,14 +795,140 @@ const Integrations: React.FC<IntegrationsProps> = ({ onConfigUpdate }) => {
                                                     onChange={(e) => setCourierConfigs(prev => ({ ...prev, [courierName]: { ...prev[courierName], password: e.target.value } }))} 
                                                 />
                                             </div>
+                                            <div className="space-y-1">
+                                                <label className="text-xs font-bold text-slate-500 ml-1">Origin Terminal (For Bookings)</label>
+                                                <div className="flex gap-2">
+                                                    <select
+                                                        className="flex-1 min-w-0 px-3 py-2 border border-slate-200 rounded-lg text-sm bg-white"
+                                                        value={config.origin_terminal_id || ''}
+                                                        disabled={daewooTerminals.length === 0}
+                                                        onChange={(e) => {
+                                                            const terminal = daewooTerminals.find(t => t.id === e.target.value);
+                                                            setCourierConfigs(prev => ({ ...prev, [courierName]: { ...prev[courierName], origin_terminal_id: e.target.value, origin_city: terminal?.city || '' } }));
+                                                        }}
+                                                    >
+                                                        <option value="">Load terminals to select</option>
+                                                        {config.origin_terminal_id && !daewooTerminals.some(t => t.id === config.origin_terminal_id) && (
+                                                            <option value={config.origin_terminal_id}>{config.origin_city || `Terminal #${config.origin_terminal_id}`}</option>
+                                                        )}
+                                                        {daewooTerminals.map(t => (
+                                                            <option key={t.id} value={t.id}>{t.name}{t.city && t.city !== t.name ? ` (${t.city})` : ''}</option>
+                                                        ))}
+                                                    </select>
+                                                    <button
+                                                        onClick={handleLoadDaewooTerminals}
+                                                        disabled={loadingTerminals || !config.api_token || !config.username || !config.password}
+                                                        className="px-3 py-2 bg-white border border-slate-200 rounded-lg text-xs font-bold text-slate-600 hover:bg-slate-50 disabled:opacity-50"
+                                                    >
+                                                        {loadingTerminals ? <Loader2 size={14} className="animate-spin" /> : 'Load'}
+                                                    </button>
+                                                </div>
+                                            </div>
+                                        </>
+                                    )}
+
+                                    {isTrax && (
+                                        <>
+                                            <div className="space-y-1">
+                                                <label className="text-xs font-bold text-slate-500 ml-1">API Key</label>
+                                                <input 
+                                                    type="password"
+                                                    className="w-full px-3 py-2 border border-slate-200 rounded-lg text-sm" 
+                                                    placeholder="From Sonic portal > Settings > API" 
+                                                    value={config.api_token || ''} 
+                                                    onChange={(e) => setCourierConfigs(prev => ({ ...prev, [courierName]: { ...prev[courierName], api_token: e.target.value } }))} 
+                                                />
+                                            </div>
+                                            <div className="space-y-1">
+                                                <label className="text-xs font-bold text-slate-500 ml-1">Pickup Address ID (Optional)</label>
+                                                <input 
+                                                    type="text"
+                                                    className="w-full px-3 py-2 border border-slate-200 rounded-lg text-sm" 
+                                                    placeholder="Defaults to first pickup address" 
+                                                    value={config.merchant_id || ''} 
+                                                    onChange={(e) => setCourierConfigs(prev => ({ ...prev, [courierName]: { ...prev[courierName], merchant_id: e.target.value } }))} 
+                                                />
+                                            </div>
+                                        </>
+                                    )}
+
+                                    {isLeopards && (
+                                        <>
+                                            <div className="space-y-1">
+                                                <label className="text-xs font-bold text-slate-500 ml-1">API Key</label>
+                                                <input 
+                                                    type="password"
+                                                    className="w-full px-3 py-2 border border-slate-200 rounded-lg text-sm" 
+                                                    placeholder="Your API Key" 
+                                                    value={config.api_token || ''} 
+                                                    onChange={(e) => setCourierConfigs(prev => ({ ...prev, [courierName]: { ...prev[courierName], api_token: e.target.value } }))} 
+                                                />
+                                            </div>
+                                            <div className="space-y-1">
+                                                <label className="text-xs font-bold text-slate-500 ml-1">API Password</label>
+                                                <input 
+                                                    type="password"
+                                                    className="w-full px-3 py-2 border border-slate-200 rounded-lg text-sm" 
+                                                    placeholder="Your API Password" 
+                                                    value={config.password || ''} 
+                                                    onChange={(e) => setCourierConfigs(prev => ({ ...prev, [courierName]: { ...prev[courierName], password: e.target.value } }))} 
+                                                />
+                                            </div>
                                         </>
                                     )}
 
-                                    {!isTCS && !isDaewoo && (
+                                    {isMnp && (
+                                        <>
+                                            <div className="space-y-1">
+                                                <label className="text-xs font-bold text-slate-500 ml-1">Username</label>
+                                                <input 
+                                                    type="text"
+                                                    className="w-full px-3 py-2 border border-slate-200 rounded-lg text-sm" 
+                                                    placeholder="COD portal username" 
+                                                    value={config.username || ''} 
+                                                    onChange={(e) => setCourierConfigs(prev => ({ ...prev, [courierName]: { ...prev[courierName], username: e.target.value } }))} 
+                                                />
+                                            </div>
+                                            <div className="space-y-1">
+                                                <label className="text-xs font-bold text-slate-500 ml-1">Password</label>
+                                                <input 
+                                                    type="password"
+                                                    className="w-full px-3 py-2 border border-slate-200 rounded-lg text-sm" 
+                                                    placeholder="COD portal password" 
+                                                    value={config.password || ''} 
+                                                    onChange={(e) => setCourierConfigs(prev => ({ ...prev, [courierName]: { ...prev[courierName], password: e.target.value } }))} 
+                                                />
+                                            </div>
+                                            <div className="space-y-1">
+                                                <label className="text-xs font-bold text-slate-500 ml-1">Account Number (Optional)</label>
+                                                <input 
+                                                    type="text"
+                                                    className="w-full px-3 py-2 border border-slate-200 rounded-lg text-sm" 
+                                                    placeholder="e.g. 4K12345" 
+                                                    value={config.merchant_id || ''} 
+                                                    onChange={(e) => setCourierConfigs(prev => ({ ...prev, [courierName]: { ...prev[courierName], merchant_id: e.target.value } }))} 
+                                                />
+                                            </div>
+                                        </>
+                                    )}
+
+                                    {isCallCourier && (
+                                        <div className="space-y-1">
+                                            <label className="text-xs font-bold text-slate-500 ml-1">Login ID</label>
+                                            <input 
+                                                type="text"
+                                                className="w-full px-3 py-2 border border-slate-200 rounded-lg text-sm" 
+                                                placeholder="e.g. test-0001" 
+                                                value={config.username || ''} 
+                                                onChange={(e) => setCourierConfigs(prev => ({ ...prev, [courierName]: { ...prev[courierName], username: e.target.value } }))} 
+                                            />
+                                        </div>
+                                    )}
+
+                                    {!isTCS && !isDaewoo && !isTrax && !isLeopards && !isMnp && !isCallCourier && (
                                         <input 
                                             type="password" 
-                                            disabled={isComingSoon}
-                                            className="w-full px-3 py-2 border border-slate-200 rounded-lg text-sm disabled:bg-slate-50" 
+                                            className="w-full px-3 py-2 border border-slate-200 rounded-lg text-sm" 
                                             placeholder="API Key / Token" 
                                             value={config.api_token} 
                                             onChange={(e) => setCourierConfigs(prev => ({ ...prev, [courierName]: { ...prev[courierName], api_token: e.target.value } }))} 
@@ -782,7 +937,7 @@ const Integrations: React.FC<IntegrationsProps> = ({ onConfigUpdate }) => {
                                     
                                     <button 
                                         onClick={() => handleConnectCourier(courierName)} 
-                                        disabled={testingConnection === courierName || isComingSoon} 
+                                        disabled={testingConnection === courierName} 
                                         className="w-full py-2.5 bg-slate-900 text-white rounded-lg text-xs font-bold flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
                                     >
                                         {testingConnection === courierName ? <Loader2 className="animate-spin" size={14}/> : 'Connect'}
@@ -2,7 +2,7 @@
 import React, { useState, useMemo, useEffect } from 'react';
 import { Product, Order, ShopifyOrder, OrderStatus } from '../types';
 import { formatCurrency } from '../services/calculator';
-import { Edit2, X, Package, Layers, CheckSquare, Square, ChevronDown, ChevronRight, Folder, Calendar, Search, History as HistoryIcon, TrendingUp, Save, Plus, Trash2, Tag, AlertCircle, Sparkles, ArrowRight } from 'lucide-react';
+import { Edit2, X, Package, Layers, CheckSquare, Square, ChevronDown, ChevronRight, Folder, Calendar, Search, History as HistoryIcon, TrendingUp, Save, Plus, Trash2, Tag, AlertCircle, Sparkles, ArrowRight, Scale } from 'lucide-react';
 
 interface InventoryProps {
   products: Product[];
@@ -167,6 +167,14 @@ const Inventory: React.FC<InventoryProps> = ({ products, orders, shopifyOrders,
     }
   };
 
+  const handleUpdateWeight = async (weightKg: number | undefined) => {
+    if (selectedProduct) {
+        await handleUpdateAndSave([{ ...selectedProduct, weight_kg: weightKg }]);
+    } else if (selectedGroup) {
+        await handleUpdateAndSave(selectedGroup.items.map(item => ({ ...item, weight_kg: weightKg })));
+    }
+  };
+
   const handleAddHistoryRule = async () => {
       if (!newRuleDate || !newRuleCost || !editTarget) return;
       const cost = parseFloat(newRuleCost);
@@ -470,6 +478,27 @@ const Inventory: React.FC<InventoryProps> = ({ products, orders, shopifyOrders,
                           </div>
                       </section>
 
+                      {/* Parcel Weight */}
+                      <section className="flex gap-4 items-end">
+                          <div className="flex-1">
+                              <label className="block text-xs font-medium text-slate-500 mb-1 flex items-center gap-1"><Scale size={12} /> Packed Weight (per unit)</label>
+                              <div className="relative">
+                                  <input 
+                                    type="number" 
+                                    step="0.1"
+                                    className="w-full px-4 py-2 border rounded-lg text-sm focus:ring-2 focus:ring-brand-500 outline-none" 
+                                    value={editTarget.weight_kg ?? ''} 
+                                    onChange={(e) => handleUpdateWeight(parseFloat(e.target.value) || undefined)} 
+                                    placeholder="0.5"
+                                  />
+                                  <div className="absolute right-3 top-2 text-slate-400 text-sm font-medium">kg</div>
+                              </div>
+                          </div>
+                          <div className="pb-2 text-xs text-slate-500 max-w-[250px] leading-tight">
+                              Prices the courier weight slab when Shopify sends no item weight.
+                          </div>
+                      </section>
+
                       {/* Section 2: Date-Based History Rules */}
                       <section>
                           <div className="flex justify-between items-center mb-4">
@@ -5,6 +5,7 @@ import { formatCurrency } from '../services/calculator';
 import { FacebookService } from '../services/facebook';
 import { TikTokService } from '../services/tiktok';
 import { supabase } from '../services/supabase';
+import { USD_TO_PKR_RATE } from '../constants';
 import { BarChart3, Plus, Trash2, Calendar, DollarSign, CalendarRange, RefreshCw, Facebook, AlertTriangle, Link, CheckCircle2, LayoutGrid, ListFilter, Settings, ShoppingBag } from 'lucide-react';
 
 interface MarketingProps {
@@ -46,7 +47,7 @@ const Marketing: React.FC<MarketingProps> = ({ adSpend, products, orders, onAddA
 
   const [fbConfig, setFbConfig] = useState<MarketingConfig | null>(null);
   const [tiktokConfig, setTiktokConfig] = useState<MarketingConfig | null>(null);
-  const [exchangeRate, setExchangeRate] = useState<number>(278);
+  const [exchangeRate, setExchangeRate] = useState<number>(USD_TO_PKR_RATE);
 
   const [isSyncing, setIsSyncing] = useState(false);
   const [syncError, setSyncError] = useState<string | null>(null);
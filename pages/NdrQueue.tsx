@@ -0,0 +1,199 @@
+import React, { useMemo, useState } from 'react';
+import { Order, OrderStatus, CourierName, NdrAction } from '../types';
+import { formatCurrency } from '../services/calculator';
+import { buildNdrQueue } from '../services/ndr';
+import { PhoneMissed, RotateCcw, Undo2, RefreshCw, Loader2, CheckCircle2, Phone } from 'lucide-react';
+
+interface NdrQueueProps {
+  orders: Order[];
+  ndrCouriers: CourierName[]; // Couriers that accept shipper advice over the API
+  onNdrAction: (order: Order, action: NdrAction, remarks: string) => Promise<void>;
+  onTrackOrder?: (order: Order) => Promise<OrderStatus>;
+}
+
+const NdrQueue: React.FC<NdrQueueProps> = ({ orders, ndrCouriers, onNdrAction, onTrackOrder }) => {
+  const [view, setView] = useState<'OPEN' | 'ACTIONED'>('OPEN');
+  const [remarks, setRemarks] = useState<Record<string, string>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const queue = useMemo(() => buildNdrQueue(orders), [orders]);
+  const openCases = queue.filter(c => !c.is_actioned);
+  const actionedCases = queue.filter(c => c.is_actioned);
+  const visible = view === 'OPEN' ? openCases : actionedCases;
+
+  const codAtRisk = openCases.reduce((sum, c) => sum + c.order.cod_amount, 0);
+
+  const handleAction = async (order: Order, action: NdrAction) => {
+      const supported = ndrCouriers.includes(order.courier);
+      if (!supported && !window.confirm(`${order.courier} does not accept NDR actions over the API. Record this decision here and advise the courier through their portal?`)) return;
+
+      setBusyId(order.id);
+      setErrors(prev => ({ ...prev, [order.id]: '' }));
+      try {
+          await onNdrAction(order, action, remarks[order.id] || '');
+      } catch (e: any) {
+          setErrors(prev => ({ ...prev, [order.id]: e.message || 'Action failed' }));
+      }
+      setBusyId(null);
+  };
+
+  const handleRefresh = async (order: Order) => {
+      if (!onTrackOrder) return;
+      setBusyId(order.id);
+      try {
+          await onTrackOrder(order);
+      } catch (e: any) {
+          setErrors(prev => ({ ...prev, [order.id]: e.message || 'Tracking failed' }));
+      }
+      setBusyId(null);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-slate-900">NDR Queue</h2>
+        <p className="text-slate-500 text-sm">Failed delivery attempts waiting for your advice. Act before they turn into RTO.</p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="bg-white p-5 rounded-xl shadow-sm border border-slate-200">
+            <p className="text-xs font-bold text-slate-500 uppercase tracking-wide">Needs Action</p>
+            <p className="text-2xl font-bold text-amber-600 mt-1">{openCases.length}</p>
+        </div>
+        <div className="bg-white p-5 rounded-xl shadow-sm border border-slate-200">
+            <p className="text-xs font-bold text-slate-500 uppercase tracking-wide">COD At Risk</p>
+            <p className="text-2xl font-bold text-slate-900 mt-1">{formatCurrency(codAtRisk)}</p>
+        </div>
+        <div className="bg-white p-5 rounded-xl shadow-sm border border-slate-200">
+            <p className="text-xs font-bold text-slate-500 uppercase tracking-wide">Advice Given</p>
+            <p className="text-2xl font-bold text-green-600 mt-1">{actionedCases.length}</p>
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        {(['OPEN', 'ACTIONED'] as const).map(v => (
+            <button
+                key={v}
+                onClick={() => setView(v)}
+                className={`px-4 py-1.5 rounded-full text-xs font-semibold whitespace-nowrap transition-colors ${
+                    view === v ? 'bg-brand-600 text-white' : 'bg-white border text-slate-600 hover:bg-slate-50'
+                }`}
+            >
+                {v === 'OPEN' ? `Needs Action (${openCases.length})` : `Actioned (${actionedCases.length})`}
+            </button>
+        ))}
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-slate-50 border-b border-gray-200">
+              <tr>
+                <th className="px-6 py-4 font-semibold text-slate-700">Order</th>
+                <th className="px-6 py-4 font-semibold text-slate-700">Consignee</th>
+                <th className="px-6 py-4 font-semibold text-slate-700">Courier Reason</th>
+                <th className="px-6 py-4 font-semibold text-slate-700">Attempts</th>
+                <th className="px-6 py-4 font-semibold text-slate-700">COD</th>
+                <th className="px-6 py-4 font-semibold text-slate-700">Action</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {visible.length === 0 && (
+                  <tr>
+                      <td colSpan={6} className="px-6 py-12 text-center text-slate-500">
+                          <PhoneMissed size={28} className="mx-auto text-slate-300 mb-2" />
+                          {view === 'OPEN' ? 'No failed deliveries waiting for action.' : 'No advice given yet.'}
+                      </td>
+                  </tr>
+              )}
+              {visible.map(c => {
+                  const o = c.order;
+                  const isBusy = busyId === o.id;
+                  return (
+                    <tr key={o.id} className="hover:bg-slate-50 transition-colors align-top">
+                      <td className="px-6 py-4">
+                          <div className="font-medium text-slate-900">{o.shopify_order_number}</div>
+                          <div className="text-xs text-slate-500 mt-0.5">{o.courier} · <span className="font-mono">{o.tracking_number}</span></div>
+                      </td>
+                      <td className="px-6 py-4">
+                          <div className="text-slate-900">{o.customer_name || 'Unknown'}</div>
+                          {o.customer_phone && (
+                              <a href={`tel:${o.customer_phone}`} className="text-xs text-brand-600 hover:underline flex items-center gap-1 mt-0.5">
+                                  <Phone size={10} /> {o.customer_phone}
+                              </a>
+                          )}
+                          <div className="text-xs text-slate-500 mt-0.5">{o.customer_city}</div>
+                      </td>
+                      <td className="px-6 py-4 max-w-xs">
+                          <div className="text-slate-700">{c.reason}</div>
+                          <div className="text-xs text-slate-400 mt-0.5">{new Date(c.last_attempt_at).toLocaleString()}</div>
+                      </td>
+                      <td className="px-6 py-4">
+                          <div className="font-medium text-slate-900">{c.attempts}</div>
+                          <div className={`text-xs mt-0.5 ${c.days_open >= 2 ? 'text-red-500 font-bold' : 'text-slate-500'}`}>{c.days_open}d open</div>
+                      </td>
+                      <td className="px-6 py-4 font-medium">{formatCurrency(o.cod_amount)}</td>
+                      <td className="px-6 py-4">
+                          {c.is_actioned ? (
+                              <div>
+                                  <span className="flex items-center gap-1.5 text-xs font-bold text-green-700">
+                                      <CheckCircle2 size={14} /> {o.ndr_action === 'REATTEMPT' ? 'Reattempt requested' : 'Return requested'}
+                                  </span>
+                                  <div className="text-xs text-slate-400 mt-0.5">
+                                      {new Date(o.ndr_action_at!).toLocaleString()}
+                                      {!ndrCouriers.includes(o.courier) && ' · recorded only'}
+                                  </div>
+                                  {o.ndr_remarks && <div className="text-xs text-slate-500 italic mt-0.5">{o.ndr_remarks}</div>}
+                              </div>
+                          ) : (
+                              <div className="space-y-2 min-w-[220px]">
+                                  <input
+                                      type="text"
+                                      placeholder="Remarks for rider (e.g. call before 5pm)"
+                                      className="w-full px-2 py-1.5 border border-slate-200 rounded-md text-xs"
+                                      value={remarks[o.id] || ''}
+                                      onChange={(e) => setRemarks(prev => ({ ...prev, [o.id]: e.target.value }))}
+                                  />
+                                  <div className="flex gap-2">
+                                      <button
+                                          onClick={() => handleAction(o, 'REATTEMPT')}
+                                          disabled={isBusy}
+                                          className="flex items-center gap-1 bg-brand-600 text-white px-2.5 py-1.5 rounded-lg text-xs font-bold hover:bg-brand-700 transition-colors disabled:opacity-50"
+                                      >
+                                          {isBusy ? <Loader2 size={12} className="animate-spin" /> : <RotateCcw size={12} />} Reattempt
+                                      </button>
+                                      <button
+                                          onClick={() => handleAction(o, 'RETURN')}
+                                          disabled={isBusy}
+                                          className="flex items-center gap-1 bg-white border border-slate-300 text-slate-700 px-2.5 py-1.5 rounded-lg text-xs font-bold hover:bg-slate-50 disabled:opacity-50"
+                                      >
+                                          <Undo2 size={12} /> Return
+                                      </button>
+                                      {onTrackOrder && (
+                                          <button
+                                              onClick={() => handleRefresh(o)}
+                                              disabled={isBusy}
+                                              className="text-slate-400 hover:text-brand-600 p-1.5 disabled:opacity-50"
+                                              title="Refresh tracking"
+                                          >
+                                              <RefreshCw size={14} />
+                                          </button>
+                                      )}
+                                  </div>
+                              </div>
+                          )}
+                          {errors[o.id] && <p className="text-xs text-red-600 mt-1">{errors[o.id]}</p>}
+                      </td>
+                    </tr>
+                  );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default NdrQueue;
@@ -1,20 +1,50 @@
 
 import React, { useState, useMemo } from 'react';
-import { Order, OrderStatus, PaymentStatus, CourierName } from '../types';
-import { formatCurrency } from '../services/calculator';
-import { Filter, Search, Calendar, RefreshCw, Loader2, CheckCircle } from 'lucide-react';
+import { Order, OrderStatus, PaymentStatus, CourierName, BookingResult, CourierTerminal, Product } from '../types';
+import BulkBookingModal from '../components/BulkBookingModal';
+import ManifestModal from '../components/ManifestModal';
+import OrderDetailModal from '../components/OrderDetailModal';
+import DaewooTerminalSelect from '../components/DaewooTerminalSelect';
+import { generateLabelsPdf, LabelFormat } from '../services/labels';
+import { formatCurrency, getCourierCharges, getCourierChargeVariance } from '../services/calculator';
+import { CourierQuote } from '../services/rateShopping';
+import { matchDaewooTerminal } from '../services/couriers/daewoo';
+import { Filter, Search, Calendar, RefreshCw, Loader2, CheckCircle, Truck, CheckSquare, Square, Printer, ClipboardList, XCircle, Sparkles } from 'lucide-react';
 
 interface OrdersProps {
   orders: Order[];
+  storeName?: string;
+  products?: Product[]; // For parcel weights on labels and booking rules
+  trackableCouriers?: CourierName[]; // Couriers with an active integration
   onTrackOrder?: (order: Order) => Promise<OrderStatus>;
+  onBulkTrack?: (orders: Order[], onProgress?: (done: number) => void) => Promise<number>;
+  bookableCouriers?: CourierName[]; // Configured couriers whose adapter supports createBooking
+  onQuoteCouriers?: (order: Order) => CourierQuote[]; // Bookable couriers ranked by expected profit
+  onBookOrder?: (order: Order) => Promise<string>;
+  onBulkBook?: (assignments: { order: Order, courier: CourierName }[], onResult?: (result: BookingResult) => void) => Promise<BookingResult[]>;
+  daewooTerminals?: CourierTerminal[]; // Destination choices when booking Daewoo
+  onMarkHandedOver?: (orderIds: string[]) => Promise<void>;
+  cancellableCouriers?: CourierName[]; // Configured couriers whose adapter supports cancelBooking
+  onCancelBooking?: (order: Order) => Promise<void>;
 }
 
-const Orders: React.FC<OrdersProps> = ({ orders, onTrackOrder }) => {
+const Orders: React.FC<OrdersProps> = ({ orders, storeName = 'My Store', products = [], trackableCouriers = [], onBulkTrack, bookableCouriers = [], onQuoteCouriers, onTrackOrder, onBookOrder, onBulkBook, daewooTerminals = [], onMarkHandedOver, cancellableCouriers = [], onCancelBooking }) => {
   const [filter, setFilter] = useState('ALL');
   const [search, setSearch] = useState('');
   const [dateRange, setDateRange] = useState({ start: '', end: '' });
   const [isSyncing, setIsSyncing] = useState(false);
   const [syncCount, setSyncCount] = useState({ current: 0, total: 0 });
+  const [bookingId, setBookingId] = useState<string | null>(null);
+  const [bookingErrors, setBookingErrors] = useState<Record<string, string>>({});
+  const [courierChoices, setCourierChoices] = useState<Record<string, CourierName>>({});
+  const [terminalChoices, setTerminalChoices] = useState<Record<string, string>>({});
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  // Snapshot of the selection when the queue opens, so booked orders stay visible with their results
+  const [bulkQueue, setBulkQueue] = useState<Order[] | null>(null);
+  const [manifestOrders, setManifestOrders] = useState<Order[] | null>(null);
+  // Looked up from `orders` on render so the timeline reflects a refresh
+  const [detailOrderId, setDetailOrderId] = useState<string | null>(null);
+  const detailOrder = detailOrderId ? orders.find(o => o.id === detailOrderId) : undefined;
 
   const filteredOrders = useMemo(() => {
       return orders.filter(o => {
@@ -41,6 +71,7 @@ const Orders: React.FC<OrdersProps> = ({ orders, onTrackOrder }) => {
         if (filter === 'UNBOOKED') return o.status === OrderStatus.PENDING;
         if (filter === 'BOOKED') return o.status === OrderStatus.BOOKED;
         if (filter === 'IN_TRANSIT') return o.status === OrderStatus.IN_TRANSIT;
+        if (filter === 'ATTEMPTED') return o.status === OrderStatus.DELIVERY_ATTEMPTED;
         if (filter === 'DELIVERED') return o.status === OrderStatus.DELIVERED;
         if (filter === 'RETURNED') return o.status === OrderStatus.RETURNED || o.status === OrderStatus.RTO_INITIATED;
         
@@ -48,48 +79,175 @@ const Orders: React.FC<OrdersProps> = ({ orders, onTrackOrder }) => {
       });
   }, [orders, search, dateRange, filter]);
 
-  // Identify orders that are eligible for live tracking updates
+  // Identify orders that are eligible for live tracking updates (any configured courier)
   // Updated: Include RTO_INITIATED so we can track when it becomes RETURNED (Closed)
-  const trackableTcsOrders = useMemo(() => {
+  const trackableOrders = useMemo(() => {
       return orders.filter(o => 
-          o.courier === CourierName.TCS && 
+          trackableCouriers.includes(o.courier) &&
           o.tracking_number && 
           o.tracking_number.length > 6 &&
           o.tracking_number !== 'Pending' &&
-          (o.status === OrderStatus.IN_TRANSIT || o.status === OrderStatus.PENDING || o.status === OrderStatus.RTO_INITIATED)
+          (o.status === OrderStatus.BOOKED || o.status === OrderStatus.IN_TRANSIT || o.status === OrderStatus.DELIVERY_ATTEMPTED || o.status === OrderStatus.RTO_INITIATED)
       );
-  }, [orders]);
+  }, [orders, trackableCouriers]);
 
-  const handleSyncTcs = async () => {
-      if (!onTrackOrder || trackableTcsOrders.length === 0) return;
+  const handleSyncStatuses = async () => {
+      if (!onBulkTrack || trackableOrders.length === 0) return;
       
       setIsSyncing(true);
-      setSyncCount({ current: 0, total: trackableTcsOrders.length });
-
-      for (let i = 0; i < trackableTcsOrders.length; i++) {
-          try {
-              await onTrackOrder(trackableTcsOrders[i]);
-          } catch (e) {
-              console.error("Sync failed for", trackableTcsOrders[i].id);
-          }
-          setSyncCount(prev => ({ ...prev, current: i + 1 }));
-          // Add small delay to prevent rate limiting
-          await new Promise(r => setTimeout(r, 800));
+      setSyncCount({ current: 0, total: trackableOrders.length });
+
+      try {
+          await onBulkTrack(trackableOrders, (done) => setSyncCount(prev => ({ ...prev, current: done })));
+      } catch (e) {
+          console.error("Status sync failed", e);
       }
 
       setIsSyncing(false);
   };
 
+  const quotesById = useMemo(() => {
+      const quotes: Record<string, CourierQuote[]> = {};
+      if (!onQuoteCouriers) return quotes;
+      orders.filter(o => o.status === OrderStatus.PENDING).forEach(o => { quotes[o.id] = onQuoteCouriers(o); });
+      return quotes;
+  }, [orders, onQuoteCouriers]);
+
+  // The user's pick, else the recommended courier, the order's own courier when it can book, or the first bookable one
+  const getBookingCourier = (order: Order): CourierName | undefined =>
+      courierChoices[order.id] || quotesById[order.id]?.[0]?.courier || (bookableCouriers.includes(order.courier) ? order.courier : bookableCouriers[0]);
+
+  // The user's pick, else the only terminal in the customer's city; empty means Daewoo cannot be booked yet
+  const getDaewooTerminal = (order: Order): string =>
+      terminalChoices[order.id] ?? matchDaewooTerminal(order.customer_city, daewooTerminals)?.id ?? '';
+
+  // Unbooked orders can be queued for bulk booking; booked orders can have their labels printed
+  const canBulkBook = !!onBulkBook && bookableCouriers.length > 0;
+  const isSelectable = (o: Order) => (o.status === OrderStatus.PENDING && canBulkBook) || o.status === OrderStatus.BOOKED;
+  const selectableOrders = useMemo(() => filteredOrders.filter(isSelectable), [filteredOrders, canBulkBook]);
+  const selectedOrders = useMemo(() => orders.filter(o => selectedIds.has(o.id) && o.status === OrderStatus.PENDING), [orders, selectedIds]);
+  const selectedBookedOrders = useMemo(() => orders.filter(o => selectedIds.has(o.id) && o.status === OrderStatus.BOOKED), [orders, selectedIds]);
+  const allSelected = selectableOrders.length > 0 && selectableOrders.every(o => selectedIds.has(o.id));
+
+  const toggleSelect = (id: string) => {
+      setSelectedIds(prev => {
+          const next = new Set(prev);
+          if (next.has(id)) next.delete(id);
+          else next.add(id);
+          return next;
+      });
+  };
+
+  const toggleSelectAll = () => {
+      setSelectedIds(allSelected ? new Set() : new Set(selectableOrders.map(o => o.id)));
+  };
+
+  // Booked parcels still waiting for the rider; a selection narrows the load sheet to those CNs
+  const awaitingPickup = useMemo(() => orders.filter(o => o.status === OrderStatus.BOOKED && !o.handed_over_at), [orders]);
+
+  const handleOpenManifest = () => {
+      const selected = selectedBookedOrders.filter(o => !o.handed_over_at);
+      setManifestOrders(selected.length > 0 ? selected : awaitingPickup);
+  };
+
+  const handlePrintLabels = (format: LabelFormat) => {
+      try {
+          generateLabelsPdf(selectedBookedOrders, format, storeName, products);
+      } catch (e: any) {
+          alert(e.message);
+      }
+  };
+
+  const handleCloseBulkBooking = () => {
+      setBulkQueue(null);
+      setSelectedIds(new Set());
+  };
+
+  const handleBook = async (order: Order) => {
+      const courier = getBookingCourier(order);
+      if (!onBookOrder || !courier) return;
+
+      setBookingId(order.id);
+      setBookingErrors(prev => {
+          const next = { ...prev };
+          delete next[order.id];
+          return next;
+      });
+
+      try {
+          const destination = courier === CourierName.DAEWOO ? getDaewooTerminal(order) : '';
+          await onBookOrder({ ...order, courier, destination_terminal_id: destination || undefined });
+      } catch (e: any) {
+          setBookingErrors(prev => ({ ...prev, [order.id]: e.message || 'Booking failed' }));
+      }
+
+      setBookingId(null);
+  };
+
+  const handleCancel = async (order: Order) => {
+      if (!onCancelBooking) return;
+      if (!window.confirm(`Cancel ${order.courier} booking ${order.tracking_number} for ${order.shopify_order_number}?`)) return;
+
+      setBookingId(order.id);
+      setBookingErrors(prev => {
+          const next = { ...prev };
+          delete next[order.id];
+          return next;
+      });
+
+      try {
+          await onCancelBooking(order);
+      } catch (e: any) {
+          setBookingErrors(prev => ({ ...prev, [order.id]: e.message || 'Cancellation failed' }));
+      }
+
+      setBookingId(null);
+  };
+
   return (
     <div className="space-y-6">
       <div className="flex flex-col lg:flex-row justify-between items-start lg:items-center gap-4">
         <h2 className="text-2xl font-bold text-slate-900">Order Management</h2>
         
         <div className="flex flex-col sm:flex-row gap-2 w-full lg:w-auto items-center">
+          {/* Bulk Booking */}
+          {canBulkBook && selectedOrders.length > 0 && (
+              <button 
+                onClick={() => setBulkQueue(selectedOrders)}
+                className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-bold bg-brand-600 text-white hover:bg-brand-700 transition-all shadow-sm"
+              >
+                  <Truck size={16} />
+                  Book {selectedOrders.length} Selected
+              </button>
+          )}
+
+          {/* Airway Bills */}
+          {selectedBookedOrders.length > 0 && (
+              <div className="flex items-center rounded-lg border border-slate-300 bg-white shadow-sm overflow-hidden text-sm font-bold text-slate-700">
+                  <span className="flex items-center gap-2 px-3 py-2 border-r border-slate-200">
+                      <Printer size={16} className="text-indigo-600" />
+                      {selectedBookedOrders.length} Labels
+                  </span>
+                  <button onClick={() => handlePrintLabels('a4')} className="px-3 py-2 hover:bg-slate-50 border-r border-slate-200">A4</button>
+                  <button onClick={() => handlePrintLabels('thermal')} className="px-3 py-2 hover:bg-slate-50">4x6</button>
+              </div>
+          )}
+
+          {/* Load Sheets */}
+          {onMarkHandedOver && awaitingPickup.length > 0 && (
+              <button 
+                onClick={handleOpenManifest}
+                className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-bold bg-white border border-slate-300 text-slate-700 hover:bg-slate-50 transition-all shadow-sm"
+              >
+                  <ClipboardList size={16} className="text-indigo-600" />
+                  Load Sheet ({selectedBookedOrders.filter(o => !o.handed_over_at).length || awaitingPickup.length})
+              </button>
+          )}
+
           {/* Sync Button */}
-          {trackableTcsOrders.length > 0 && onTrackOrder && (
+          {trackableOrders.length > 0 && onBulkTrack && (
               <button 
-                onClick={handleSyncTcs}
+                onClick={handleSyncStatuses}
                 disabled={isSyncing}
                 className={`flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-bold transition-all shadow-sm ${
                     isSyncing ? 'bg-indigo-50 text-indigo-700 border border-indigo-200' : 'bg-white border border-slate-300 text-slate-700 hover:bg-slate-50'
@@ -103,7 +261,7 @@ const Orders: React.FC<OrdersProps> = ({ orders, onTrackOrder }) => {
                   ) : (
                       <>
                           <RefreshCw size={16} className="text-indigo-600" />
-                          Sync {trackableTcsOrders.length} TCS Statuses
+                          Sync {trackableOrders.length} Courier Statuses
                       </>
                   )}
               </button>
@@ -147,7 +305,7 @@ const Orders: React.FC<OrdersProps> = ({ orders, onTrackOrder }) => {
       </div>
 
       <div className="flex gap-2 overflow-x-auto pb-2">
-        {['ALL', 'UNBOOKED', 'BOOKED', 'IN_TRANSIT', 'DELIVERED', 'RETURNED'].map(f => (
+        {['ALL', 'UNBOOKED', 'BOOKED', 'IN_TRANSIT', 'ATTEMPTED', 'DELIVERED', 'RETURNED'].map(f => (
             <button 
                 key={f}
                 onClick={() => setFilter(f)}
@@ -165,6 +323,11 @@ const Orders: React.FC<OrdersProps> = ({ orders, onTrackOrder }) => {
           <table className="w-full text-left text-sm">
             <thead className="bg-slate-50 border-b border-gray-200">
               <tr>
+                <th className="pl-6 py-4 w-8">
+                    <button onClick={toggleSelectAll} disabled={selectableOrders.length === 0} className="text-slate-400 hover:text-brand-600 disabled:opacity-30" title="Select all unbooked / booked">
+                        {allSelected ? <CheckSquare size={16} className="text-brand-600" /> : <Square size={16} />}
+                    </button>
+                </th>
                 <th className="px-6 py-4 font-semibold text-slate-700">Order</th>
                 <th className="px-6 py-4 font-semibold text-slate-700">Date</th>
                 <th className="px-6 py-4 font-semibold text-slate-700">City</th>
@@ -182,8 +345,15 @@ const Orders: React.FC<OrdersProps> = ({ orders, onTrackOrder }) => {
 
                 return (
                 <tr key={order.id} className="hover:bg-slate-50 transition-colors">
+                  <td className="pl-6 py-4 w-8">
+                      {isSelectable(order) && (
+                          <button onClick={() => toggleSelect(order.id)} className="text-slate-400 hover:text-brand-600">
+                              {selectedIds.has(order.id) ? <CheckSquare size={16} className="text-brand-600" /> : <Square size={16} />}
+                          </button>
+                      )}
+                  </td>
                   <td className="px-6 py-4">
-                    <div className="font-medium text-slate-900 mb-1">{order.shopify_order_number}</div>
+                    <button onClick={() => setDetailOrderId(order.id)} className="font-medium text-slate-900 mb-1 hover:text-brand-600 hover:underline">{order.shopify_order_number}</button>
                     <div className="flex flex-col gap-1">
                         {order.items.map((i, idx) => (
                             <div key={idx} className="text-xs text-slate-600 flex items-center gap-1.5">
@@ -207,14 +377,15 @@ const Orders: React.FC<OrdersProps> = ({ orders, onTrackOrder }) => {
                     <div className="text-xs text-slate-500 mt-0.5">
                         {!isCharged && <span className="text-slate-400">Not Charged Yet</span>}
                         {isCharged && order.status === OrderStatus.DELIVERED && (
-                            <span className="text-red-500">-{formatCurrency(order.courier_fee)} (Ship)</span>
+                            <span className="text-red-500">-{formatCurrency(getCourierCharges(order))} (Ship)</span>
                         )}
                         {isCharged && (order.status === OrderStatus.RETURNED || order.status === OrderStatus.RTO_INITIATED) && (
-                            <span className="text-red-500">-{formatCurrency(order.courier_fee + order.rto_penalty)} (Loss)</span>
+                            <span className="text-red-500">-{formatCurrency(getCourierCharges(order))} (Loss)</span>
                         )}
-                        {isCharged && order.status === OrderStatus.IN_TRANSIT && (
+                        {isCharged && (order.status === OrderStatus.IN_TRANSIT || order.status === OrderStatus.DELIVERY_ATTEMPTED) && (
                              <span className="text-slate-500">Est. Ship: -{formatCurrency(order.courier_fee)}</span>
                         )}
+                        {isCharged && <ChargeVariance variance={getCourierChargeVariance(order)} />}
                     </div>
                   </td>
                   <td className="px-6 py-4">
@@ -222,11 +393,62 @@ const Orders: React.FC<OrdersProps> = ({ orders, onTrackOrder }) => {
                       {order.courier}
                     </span>
                     <div className="text-xs text-slate-400 mt-1 font-mono">{order.tracking_number}</div>
+                    {order.status === OrderStatus.PENDING && quotesById[order.id]?.length > 0 && (
+                        <CourierRecommendation quotes={quotesById[order.id]} />
+                    )}
+                    {order.status === OrderStatus.PENDING && onBookOrder && getBookingCourier(order) && (
+                        <div className="mt-2">
+                            <div className="flex items-center gap-1">
+                                <select
+                                    className="px-2 py-1 border border-slate-200 rounded-md text-xs bg-white disabled:bg-slate-50"
+                                    value={getBookingCourier(order)}
+                                    disabled={bookingId !== null}
+                                    onChange={(e) => setCourierChoices(prev => ({ ...prev, [order.id]: e.target.value as CourierName }))}
+                                >
+                                    {bookableCouriers.map(c => <option key={c} value={c}>{c}</option>)}
+                                </select>
+                                <button
+                                    onClick={() => handleBook(order)}
+                                    disabled={bookingId !== null}
+                                    className="flex items-center gap-1.5 px-2.5 py-1 rounded-md bg-brand-600 text-white text-xs font-bold hover:bg-brand-700 disabled:opacity-50"
+                                >
+                                    {bookingId === order.id ? <Loader2 size={12} className="animate-spin" /> : <Truck size={12} />}
+                                    {bookingId === order.id ? 'Booking...' : 'Book'}
+                                </button>
+                            </div>
+                            {getBookingCourier(order) === CourierName.DAEWOO && (
+                                <DaewooTerminalSelect
+                                    terminals={daewooTerminals}
+                                    value={getDaewooTerminal(order)}
+                                    disabled={bookingId !== null}
+                                    onChange={(id) => setTerminalChoices(prev => ({ ...prev, [order.id]: id }))}
+                                />
+                            )}
+                            {bookingErrors[order.id] && (
+                                <div className="text-[10px] text-red-600 mt-1 max-w-[180px] leading-tight">{bookingErrors[order.id]}</div>
+                            )}
+                        </div>
+                    )}
+                    {order.status === OrderStatus.BOOKED && !order.handed_over_at && onCancelBooking && cancellableCouriers.includes(order.courier) && (
+                        <div className="mt-2">
+                            <button
+                                onClick={() => handleCancel(order)}
+                                disabled={bookingId !== null}
+                                className="flex items-center gap-1.5 px-2.5 py-1 rounded-md bg-white border border-slate-300 text-slate-600 text-xs font-bold hover:bg-red-50 hover:text-red-600 hover:border-red-200 disabled:opacity-50"
+                            >
+                                {bookingId === order.id ? <Loader2 size={12} className="animate-spin" /> : <XCircle size={12} />}
+                                {bookingId === order.id ? 'Cancelling...' : 'Cancel'}
+                            </button>
+                            {bookingErrors[order.id] && (
+                                <div className="text-[10px] text-red-600 mt-1 max-w-[180px] leading-tight">{bookingErrors[order.id]}</div>
+                            )}
+                        </div>
+                    )}
                   </td>
                 </tr>
               )}) : (
                   <tr>
-                      <td colSpan={6} className="px-6 py-8 text-center text-slate-500">
+                      <td colSpan={7} className="px-6 py-8 text-center text-slate-500">
                           No orders found matching your filters.
                       </td>
                   </tr>
@@ -235,16 +457,69 @@ const Orders: React.FC<OrdersProps> = ({ orders, onTrackOrder }) => {
           </table>
         </div>
       </div>
+
+      {detailOrder && (
+          <OrderDetailModal
+              order={detailOrder}
+              onTrackOrder={trackableCouriers.includes(detailOrder.courier) ? onTrackOrder : undefined}
+              onClose={() => setDetailOrderId(null)}
+          />
+      )}
+
+      {manifestOrders && onMarkHandedOver && (
+          <ManifestModal
+              orders={manifestOrders}
+              storeName={storeName}
+              onMarkHandedOver={onMarkHandedOver}
+              onClose={() => setManifestOrders(null)}
+          />
+      )}
+
+      {bulkQueue && onBulkBook && (
+          <BulkBookingModal
+              orders={bulkQueue}
+              bookableCouriers={bookableCouriers}
+              products={products}
+              quotes={quotesById}
+              daewooTerminals={daewooTerminals}
+              onBulkBook={onBulkBook}
+              onClose={handleCloseBulkBooking}
+          />
+      )}
     </div>
   );
 };
 
+// Best courier for an unbooked order; hover for the full comparison
+const CourierRecommendation = ({ quotes }: { quotes: CourierQuote[] }) => {
+    const best = quotes[0];
+    const breakdown = quotes
+        .map(q => `${q.courier}: ${formatCurrency(q.forward_fee)} fee, ${q.delivery_rate.toFixed(0)}% delivered (${q.rate_basis.toLowerCase()}), exp. ${formatCurrency(q.expected_profit)}`)
+        .join('\n');
+    return (
+        <div className="text-[10px] text-indigo-600 mt-1 flex items-center gap-1 cursor-help" title={breakdown}>
+            <Sparkles size={10} /> Best: <span className="font-bold">{best.courier}</span> · exp. {formatCurrency(best.expected_profit)}
+        </div>
+    );
+};
+
+// Invoiced vs rate card, shown once the courier has billed the CN
+const ChargeVariance = ({ variance }: { variance: number | null }) => {
+    if (variance === null || Math.abs(variance) < 1) return null;
+    return (
+        <div className={`text-[10px] mt-0.5 ${variance > 0 ? 'text-red-400' : 'text-green-600'}`} title="Invoiced charges vs rate card">
+            {variance > 0 ? '+' : '-'}{formatCurrency(Math.abs(variance))} vs rate card
+        </div>
+    );
+};
+
 const StatusBadge = ({ status, raw }: { status: OrderStatus, raw?: string }) => {
     const styles = {
         [OrderStatus.DELIVERED]: 'bg-green-100 text-green-700',
         [OrderStatus.PENDING]: 'bg-yellow-100 text-yellow-700',
         [OrderStatus.BOOKED]: 'bg-indigo-100 text-indigo-700',
         [OrderStatus.IN_TRANSIT]: 'bg-blue-100 text-blue-700',
+        [OrderStatus.DELIVERY_ATTEMPTED]: 'bg-amber-100 text-amber-700',
         [OrderStatus.RTO_INITIATED]: 'bg-orange-100 text-orange-700',
         [OrderStatus.RETURNED]: 'bg-red-100 text-red-700',
         [OrderStatus.CANCELLED]: 'bg-gray-100 text-gray-700',
@@ -86,7 +86,7 @@ const Reconciliation: React.FC<ReconciliationProps> = ({ shopifyOrders, courierO
             }
             if (courierOrder.status === OrderStatus.DELIVERED) isDelivered = true;
             if (courierOrder.status === OrderStatus.RETURNED || courierOrder.status === OrderStatus.RTO_INITIATED) isRto = true;
-            if (courierOrder.status === OrderStatus.IN_TRANSIT) isInTransit = true;
+            if (courierOrder.status === OrderStatus.IN_TRANSIT || courierOrder.status === OrderStatus.DELIVERY_ATTEMPTED) isInTransit = true;
         }
 
         if (order.line_items.length > 0) {
@@ -0,0 +1,328 @@
+import React, { useMemo, useState } from 'react';
+import { Order, CourierName, CourierSettlement, RemittanceLine, RemittanceRecord } from '../types';
+import { formatCurrency } from '../services/calculator';
+import { parseRemittanceRows, parseRemittanceStatement, reconcileRemittance, settlementsToRemittanceLines, REMITTANCE_ISSUE_LABELS, RemittanceMatch, RemittanceIssue } from '../services/remittance';
+import { readXlsxRows } from '../services/xlsx';
+import { Upload, Banknote, AlertTriangle, CheckCircle2, Loader2, FileSpreadsheet, CloudDownload } from 'lucide-react';
+
+interface RemittancesProps {
+  orders: Order[];
+  records: RemittanceRecord[];
+  onSaveRemittance: (records: RemittanceRecord[]) => Promise<void>;
+  settleableCouriers?: CourierName[]; // Configured couriers whose adapter supports fetchSettlements
+  onFetchSettlements?: (courier: CourierName) => Promise<CourierSettlement[]>;
+}
+
+// Lines we never mark as paid: the CN is unknown or the money was already counted
+const BLOCKING_ISSUES: RemittanceIssue[] = ['NOT_FOUND', 'DUPLICATE', 'ALREADY_REMITTED'];
+
+const Remittances: React.FC<RemittancesProps> = ({ orders, records, onSaveRemittance, settleableCouriers = [], onFetchSettlements }) => {
+  const [courier, setCourier] = useState<CourierName>(CourierName.POSTEX);
+  const [statementRef, setStatementRef] = useState('');
+  const [settlementDate, setSettlementDate] = useState(new Date().toISOString().split('T')[0]);
+  const [lines, setLines] = useState<RemittanceLine[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [holdFlagged, setHoldFlagged] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isFetching, setIsFetching] = useState(false);
+  const [savedCount, setSavedCount] = useState<number | null>(null);
+
+  const result = useMemo(() => lines ? reconcileRemittance(lines, orders, courier, records) : null, [lines, orders, courier, records]);
+
+  const payable = useMemo(() => {
+      if (!result) return [];
+      return result.matches.filter(m =>
+          m.order &&
+          !m.issues.some(i => BLOCKING_ISSUES.includes(i)) &&
+          (!holdFlagged || m.issues.length === 0)
+      );
+  }, [result, holdFlagged]);
+
+  const flaggedCount = result ? result.matches.filter(m => m.issues.length > 0).length : 0;
+
+  const statementHistory = useMemo(() => {
+      const groups = new Map<string, { courier: CourierName, statement_ref: string, settlement_date: string, count: number, net: number }>();
+      records.forEach(r => {
+          const key = `${r.courier}|${r.statement_ref}`;
+          const g = groups.get(key) || { courier: r.courier, statement_ref: r.statement_ref, settlement_date: r.settlement_date, count: 0, net: 0 };
+          g.count++;
+          g.net += r.net_amount;
+          groups.set(key, g);
+      });
+      return Array.from(groups.values()).sort((a, b) => new Date(b.settlement_date).getTime() - new Date(a.settlement_date).getTime());
+  }, [records]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+
+      setError(null);
+      setSavedCount(null);
+      const name = file.name.toLowerCase();
+      if (!name.endsWith('.csv') && !name.endsWith('.xlsx')) {
+          setError('Please upload a .xlsx or .csv file. For older .xls sheets, use File > Save As > Excel Workbook (.xlsx) first.');
+          return;
+      }
+
+      try {
+          const parsed = name.endsWith('.xlsx')
+              ? parseRemittanceRows(await readXlsxRows(await file.arrayBuffer()))
+              : parseRemittanceStatement(await file.text());
+          if (parsed.length === 0) throw new Error('No CN lines found in the statement.');
+          setLines(parsed);
+          if (!statementRef) setStatementRef(file.name.replace(/\.(csv|xlsx)$/i, ''));
+      } catch (err: any) {
+          setLines(null);
+          setError(err.message || 'Could not read the statement.');
+      }
+  };
+
+  // Builds the statement from the courier's payout API: one line per delivered, unpaid CN it reports as paid
+  const handleFetch = async () => {
+      if (!onFetchSettlements) return;
+      setIsFetching(true);
+      setError(null);
+      setSavedCount(null);
+
+      try {
+          const fetched = settlementsToRemittanceLines(await onFetchSettlements(courier), orders);
+          if (fetched.length === 0) throw new Error(`${courier} reports no new payouts for your delivered, unpaid orders.`);
+          setLines(fetched);
+      } catch (err: any) {
+          setLines(null);
+          setError(err.message || 'Could not fetch payouts.');
+      }
+
+      setIsFetching(false);
+  };
+
+  const handleMarkRemitted = async () => {
+      if (payable.length === 0) return;
+      setIsSaving(true);
+      const date = new Date(settlementDate).toISOString();
+      await onSaveRemittance(payable.map(m => ({
+          courier,
+          tracking_number: m.order!.tracking_number,
+          statement_ref: m.line.statement_ref || statementRef || `${courier} ${settlementDate}`,
+          settlement_date: m.line.settlement_date || date,
+          cod_amount: m.line.cod_amount,
+          charges: m.line.charges,
+          net_amount: m.line.net_amount
+      })));
+      setSavedCount(payable.length);
+      setIsSaving(false);
+  };
+
+  const rowTone = (m: RemittanceMatch) => {
+      if (m.issues.some(i => BLOCKING_ISSUES.includes(i))) return 'bg-red-50/50';
+      if (m.issues.length > 0) return 'bg-orange-50/50';
+      return '';
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-slate-900">COD Remittances</h2>
+        <p className="text-slate-500 text-sm">Check courier payment statements against your orders before marking them paid.</p>
+      </div>
+
+      {/* Upload */}
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            <div>
+                <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Courier</label>
+                <select
+                    className="w-full px-3 py-2 border border-slate-200 rounded-lg text-sm bg-white"
+                    value={courier}
+                    onChange={(e) => setCourier(e.target.value as CourierName)}
+                >
+                    {Object.values(CourierName).map(c => <option key={c} value={c}>{c}</option>)}
+                </select>
+            </div>
+            <div>
+                <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Statement Ref</label>
+                <input
+                    type="text"
+                    className="w-full px-3 py-2 border border-slate-200 rounded-lg text-sm"
+                    placeholder="e.g. CPR-10293"
+                    value={statementRef}
+                    onChange={(e) => setStatementRef(e.target.value)}
+                />
+            </div>
+            <div>
+                <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Payment Date</label>
+                <input
+                    type="date"
+                    className="w-full px-3 py-2 border border-slate-200 rounded-lg text-sm"
+                    value={settlementDate}
+                    onChange={(e) => setSettlementDate(e.target.value)}
+                />
+            </div>
+            <div className="flex flex-col gap-2">
+                <label className="flex items-center justify-center gap-2 bg-brand-600 text-white px-4 py-2 rounded-lg text-sm font-bold hover:bg-brand-700 transition-colors cursor-pointer">
+                    <Upload size={16} /> Upload Statement
+                    <input type="file" accept=".csv,text/csv,.xlsx,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" className="hidden" onChange={handleFile} />
+                </label>
+                {onFetchSettlements && settleableCouriers.includes(courier) && (
+                    <button
+                        onClick={handleFetch}
+                        disabled={isFetching}
+                        className="flex items-center justify-center gap-2 bg-white border border-slate-200 text-slate-700 px-4 py-2 rounded-lg text-sm font-bold hover:bg-slate-50 transition-colors disabled:opacity-50"
+                    >
+                        {isFetching ? <Loader2 size={16} className="animate-spin" /> : <CloudDownload size={16} />}
+                        {isFetching ? 'Fetching...' : `Fetch from ${courier}`}
+                    </button>
+                )}
+            </div>
+        </div>
+        <p className="text-xs text-slate-400 mt-3 flex items-center gap-1.5">
+            <FileSpreadsheet size={12} /> Upload the courier's .xlsx or .csv sheet; columns are detected by name (CN / Tracking, COD, Charges, GST, Net Payable).
+        </p>
+        {onFetchSettlements && settleableCouriers.includes(courier) && (
+            <p className="text-xs text-slate-400 mt-1">
+                {courier} only reports which CNs it paid, so fetched lines take COD from the order and charges from its invoice; lines it has not billed yet are not checked against your rate card.
+            </p>
+        )}
+        {error && <p className="text-sm text-red-600 mt-3">{error}</p>}
+      </div>
+
+      {result && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+              {[
+                  { label: 'Lines', value: String(result.matches.length) },
+                  { label: 'COD Collected', value: formatCurrency(result.totals.cod) },
+                  { label: 'Charges + Tax', value: formatCurrency(result.totals.charges + result.totals.tax) },
+                  { label: 'Net Paid', value: formatCurrency(result.totals.net) },
+                  { label: 'Flagged', value: String(flaggedCount), tone: flaggedCount > 0 ? 'text-orange-600' : 'text-green-600' }
+              ].map(card => (
+                  <div key={card.label} className="bg-white p-4 rounded-xl shadow-sm border border-slate-200">
+                      <p className="text-xs font-bold text-slate-500 uppercase tracking-wide">{card.label}</p>
+                      <p className={`text-xl font-bold mt-1 ${card.tone || 'text-slate-900'}`}>{card.value}</p>
+                  </div>
+              ))}
+          </div>
+
+          <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+            <div className="px-6 py-4 border-b border-slate-100 flex flex-col md:flex-row justify-between md:items-center gap-3">
+                <h3 className="font-bold text-slate-900">Statement Lines</h3>
+                <div className="flex items-center gap-4">
+                    <label className="flex items-center gap-2 text-xs text-slate-600">
+                        <input type="checkbox" checked={holdFlagged} onChange={(e) => setHoldFlagged(e.target.checked)} />
+                        Hold short-paid / mismatched lines
+                    </label>
+                    {savedCount !== null ? (
+                        <span className="flex items-center gap-1.5 text-xs font-bold text-green-700"><CheckCircle2 size={14} /> {savedCount} orders marked remitted</span>
+                    ) : (
+                        <button
+                            onClick={handleMarkRemitted}
+                            disabled={isSaving || payable.length === 0}
+                            className="bg-brand-600 text-white px-4 py-2 rounded-lg text-xs font-bold hover:bg-brand-700 transition-colors flex items-center gap-2 disabled:opacity-50"
+                        >
+                            {isSaving ? <Loader2 size={14} className="animate-spin" /> : <Banknote size={14} />}
+                            Mark {payable.length} Remitted
+                        </button>
+                    )}
+                </div>
+            </div>
+            <div className="overflow-x-auto max-h-[480px]">
+              <table className="w-full text-left text-sm">
+                <thead className="bg-slate-50 border-b border-gray-200 sticky top-0">
+                  <tr>
+                    <th className="px-6 py-3 font-semibold text-slate-700">CN</th>
+                    <th className="px-6 py-3 font-semibold text-slate-700">Order</th>
+                    <th className="px-6 py-3 font-semibold text-slate-700 text-right">COD (Sheet / Ours)</th>
+                    <th className="px-6 py-3 font-semibold text-slate-700 text-right">Charges (Sheet / Rate)</th>
+                    <th className="px-6 py-3 font-semibold text-slate-700 text-right">Net</th>
+                    <th className="px-6 py-3 font-semibold text-slate-700">Issues</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {result.matches.map((m, idx) => (
+                    <tr key={`${m.line.tracking_number}-${idx}`} className={rowTone(m)}>
+                      <td className="px-6 py-3 font-mono text-xs">{m.line.tracking_number}</td>
+                      <td className="px-6 py-3">
+                          {m.order ? (
+                              <>
+                                  <div className="font-medium text-slate-900">{m.order.shopify_order_number}</div>
+                                  <div className="text-xs text-slate-500">{m.order.status.replace('_', ' ')}</div>
+                              </>
+                          ) : <span className="text-slate-400">-</span>}
+                      </td>
+                      <td className="px-6 py-3 text-right">
+                          {formatCurrency(m.line.cod_amount)}
+                          {m.order && <span className="text-xs text-slate-400"> / {formatCurrency(m.order.cod_amount)}</span>}
+                      </td>
+                      <td className="px-6 py-3 text-right">
+                          {m.line.charges !== undefined ? formatCurrency(m.line.charges) : <span className="text-slate-400">Not billed</span>}
+                          {m.order && <span className="text-xs text-slate-400"> / {formatCurrency(m.expected_charges)}</span>}
+                      </td>
+                      <td className="px-6 py-3 text-right font-medium">{formatCurrency(m.line.net_amount)}</td>
+                      <td className="px-6 py-3">
+                          {m.issues.length === 0 ? (
+                              <CheckCircle2 size={16} className="text-green-600" />
+                          ) : (
+                              <div className="flex flex-wrap gap-1">
+                                  {m.issues.map(i => (
+                                      <span key={i} className={`text-[10px] font-bold px-1.5 py-0.5 rounded ${BLOCKING_ISSUES.includes(i) ? 'bg-red-100 text-red-700' : 'bg-orange-100 text-orange-700'}`}>
+                                          {REMITTANCE_ISSUE_LABELS[i]}
+                                      </span>
+                                  ))}
+                              </div>
+                          )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {result.missing.length > 0 && (
+            <div className="bg-white rounded-xl shadow-sm border border-orange-200 overflow-hidden">
+                <div className="px-6 py-4 border-b border-orange-100 flex items-center gap-2">
+                    <AlertTriangle size={18} className="text-orange-500" />
+                    <h3 className="font-bold text-slate-900">Delivered but Missing from Statement ({result.missing.length})</h3>
+                    <span className="text-sm text-slate-500 ml-auto">{formatCurrency(result.missing.reduce((sum, o) => sum + o.cod_amount, 0))} COD</span>
+                </div>
+                <div className="p-4 flex flex-wrap gap-2">
+                    {result.missing.map(o => (
+                        <span key={o.id} className="text-xs bg-orange-50 text-orange-800 px-2 py-1 rounded border border-orange-100">
+                            {o.shopify_order_number} · <span className="font-mono">{o.tracking_number}</span> · {formatCurrency(o.cod_amount)}
+                        </span>
+                    ))}
+                </div>
+            </div>
+          )}
+        </>
+      )}
+
+      {/* History */}
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-100">
+            <h3 className="font-bold text-slate-900">Reconciled Statements</h3>
+        </div>
+        {statementHistory.length === 0 ? (
+            <p className="px-6 py-8 text-center text-slate-500 text-sm">No statements reconciled yet.</p>
+        ) : (
+            <table className="w-full text-left text-sm">
+                <tbody className="divide-y divide-gray-100">
+                    {statementHistory.map(s => (
+                        <tr key={`${s.courier}|${s.statement_ref}`} className="hover:bg-slate-50">
+                            <td className="px-6 py-3 font-medium text-slate-900">{s.courier}</td>
+                            <td className="px-6 py-3 text-slate-700">{s.statement_ref}</td>
+                            <td className="px-6 py-3 text-slate-500">{new Date(s.settlement_date).toLocaleDateString()}</td>
+                            <td className="px-6 py-3 text-slate-500">{s.count} CNs</td>
+                            <td className="px-6 py-3 text-right font-medium">{formatCurrency(s.net)}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Remittances;
@@ -1,9 +1,10 @@
 
 import React, { useState, useEffect } from 'react';
-import { COURIER_RATES, PACKAGING_COST_AVG } from '../constants';
-import { CourierName } from '../types';
-import { Save, AlertCircle, Database, Box, FileText, Percent, Megaphone, Store } from 'lucide-react';
+import { COURIER_RATES, PACKAGING_COST_AVG, DEFAULT_SLA_DAYS } from '../constants';
+import { CourierName, CourierRateCard, ShippingZone, WeightSlabRate } from '../types';
+import { Save, AlertCircle, Database, Box, FileText, Percent, Megaphone, Store, MapPin, Scale } from 'lucide-react';
 import { supabase } from '../services/supabase';
+import { SHIPPING_ZONES, SHIPPING_ZONE_LABELS, createDefaultSlabs } from '../services/rateCards';
 
 interface SettingsProps {
     onUpdateStoreName?: (name: string) => void;
@@ -15,7 +16,9 @@ const Settings: React.FC<SettingsProps> = ({ onUpdateStoreName }) => {
   const [overheadCost, setOverheadCost] = useState(0);
   const [taxRate, setTaxRate] = useState(0);
   const [adsTaxRate, setAdsTaxRate] = useState(0);
-  const [rates, setRates] = useState(COURIER_RATES);
+  const [originCity, setOriginCity] = useState('');
+  const [slaDays, setSlaDays] = useState(DEFAULT_SLA_DAYS);
+  const [rates, setRates] = useState<Record<CourierName, CourierRateCard>>(COURIER_RATES);
   const [savedMsg, setSavedMsg] = useState('');
   const [isSaving, setIsSaving] = useState(false);
 
@@ -38,7 +41,9 @@ const Settings: React.FC<SettingsProps> = ({ onUpdateStoreName }) => {
 
         if (data) {
             setPackagingCost(data.packaging_cost);
-            setRates(data.courier_rates);
+            setRates({ ...COURIER_RATES, ...data.courier_rates });
+            setOriginCity(data.origin_city || '');
+            setSlaDays(data.sla_days || DEFAULT_SLA_DAYS);
             setOverheadCost(data.overhead_cost || 0);
             setTaxRate(data.courier_tax_rate || 0);
             setAdsTaxRate(data.ads_tax_rate || 0);
@@ -57,6 +62,30 @@ const Settings: React.FC<SettingsProps> = ({ onUpdateStoreName }) => {
     }));
   };
 
+  const handleSlabToggle = (courier: CourierName, enabled: boolean) => {
+    setRates(prev => ({
+        ...prev,
+        [courier]: {
+            ...prev[courier],
+            slabs: enabled ? createDefaultSlabs(prev[courier]) : undefined
+        }
+    }));
+  };
+
+  const handleSlabChange = (courier: CourierName, zone: ShippingZone, slab: keyof WeightSlabRate, value: string) => {
+    setRates(prev => {
+        const slabs = prev[courier].slabs;
+        if (!slabs) return prev;
+        return {
+            ...prev,
+            [courier]: {
+                ...prev[courier],
+                slabs: { ...slabs, [zone]: { ...slabs[zone], [slab]: parseInt(value) || 0 } }
+            }
+        };
+    });
+  };
+
   const handleSave = async () => {
     setIsSaving(true);
     const { data: { user } } = await supabase.auth.getUser();
@@ -74,6 +103,8 @@ const Settings: React.FC<SettingsProps> = ({ onUpdateStoreName }) => {
                 user_id: user.id,
                 packaging_cost: packagingCost,
                 courier_rates: rates,
+                origin_city: originCity.trim() || null,
+                sla_days: slaDays,
                 overhead_cost: overheadCost,
                 courier_tax_rate: taxRate,
                 ads_tax_rate: adsTaxRate
@@ -169,6 +200,33 @@ const Settings: React.FC<SettingsProps> = ({ onUpdateStoreName }) => {
                     </div>
                     <p className="text-xs text-slate-400 mt-1">Rent, electricity, salaries (averaged). Applied to all dispatched orders.</p>
                 </div>
+                <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-1 flex items-center gap-2">
+                        <MapPin size={14} className="text-slate-500" /> Dispatch City
+                    </label>
+                    <input 
+                        type="text" 
+                        value={originCity}
+                        onChange={(e) => setOriginCity(e.target.value)}
+                        className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-brand-500 outline-none" 
+                        placeholder="e.g. Lahore"
+                    />
+                    <p className="text-xs text-slate-400 mt-1">Decides same-city / same-zone / cross-zone slabs. A courier's own pickup city in Integrations takes priority.</p>
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-1">Delivery SLA</label>
+                    <div className="flex items-center gap-2">
+                        <input 
+                            type="number" 
+                            step="0.5"
+                            value={slaDays}
+                            onChange={(e) => setSlaDays(parseFloat(e.target.value) || DEFAULT_SLA_DAYS)}
+                            className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-brand-500 outline-none" 
+                        />
+                        <span className="text-xs text-slate-500 whitespace-nowrap">days</span>
+                    </div>
+                    <p className="text-xs text-slate-400 mt-1">Dispatch-to-delivery target. Slower deliveries count as late; parcels in transit longer are flagged as stuck.</p>
+                </div>
             </div>
           </div>
 
@@ -223,29 +281,73 @@ const Settings: React.FC<SettingsProps> = ({ onUpdateStoreName }) => {
         </div>
         
         <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-6">
-            {(Object.entries(rates) as [string, { forward: number; rto: number }][]).map(([key, value]) => (
-                <div key={key} className="flex items-center justify-between p-4 bg-slate-50 rounded-lg border border-slate-100">
-                    <span className="font-semibold text-slate-700 w-32">{key}</span>
-                    <div className="flex gap-4">
-                        <div>
-                            <label className="block text-xs text-slate-500 mb-1">Forward Fee</label>
-                            <input 
-                                type="number" 
-                                className="w-24 px-2 py-1 border rounded text-sm"
-                                value={value.forward}
-                                onChange={(e) => handleRateChange(key as CourierName, 'forward', e.target.value)}
-                            />
+            {(Object.entries(rates) as [CourierName, CourierRateCard][]).map(([key, value]) => (
+                <div key={key} className={`p-4 bg-slate-50 rounded-lg border border-slate-100 ${value.slabs ? 'md:col-span-2' : ''}`}>
+                    <div className="flex items-center justify-between">
+                        <div className="w-32">
+                            <span className="font-semibold text-slate-700 block">{key}</span>
+                            <label className="flex items-center gap-1.5 text-xs text-slate-500 mt-1 cursor-pointer">
+                                <input 
+                                    type="checkbox" 
+                                    checked={!!value.slabs}
+                                    onChange={(e) => handleSlabToggle(key, e.target.checked)}
+                                />
+                                <Scale size={12} /> Weight slabs
+                            </label>
                         </div>
-                        <div>
-                            <label className="block text-xs text-slate-500 mb-1">RTO Penalty</label>
-                            <input 
-                                type="number" 
-                                className="w-24 px-2 py-1 border rounded text-sm text-red-600 bg-red-50 border-red-100"
-                                value={value.rto}
-                                onChange={(e) => handleRateChange(key as CourierName, 'rto', e.target.value)}
-                            />
+                        <div className="flex gap-4">
+                            {!value.slabs && (
+                                <div>
+                                    <label className="block text-xs text-slate-500 mb-1">Forward Fee</label>
+                                    <input 
+                                        type="number" 
+                                        className="w-24 px-2 py-1 border rounded text-sm"
+                                        value={value.forward}
+                                        onChange={(e) => handleRateChange(key, 'forward', e.target.value)}
+                                    />
+                                </div>
+                            )}
+                            <div>
+                                <label className="block text-xs text-slate-500 mb-1">RTO Penalty</label>
+                                <input 
+                                    type="number" 
+                                    className="w-24 px-2 py-1 border rounded text-sm text-red-600 bg-red-50 border-red-100"
+                                    value={value.rto}
+                                    onChange={(e) => handleRateChange(key, 'rto', e.target.value)}
+                                />
+                            </div>
                         </div>
                     </div>
+
+                    {value.slabs && (
+                        <table className="w-full text-sm mt-4">
+                            <thead>
+                                <tr className="text-xs text-slate-500">
+                                    <th className="text-left font-medium pb-1">Zone</th>
+                                    <th className="text-left font-medium pb-1">Up to 0.5 kg</th>
+                                    <th className="text-left font-medium pb-1">0.5 – 1 kg</th>
+                                    <th className="text-left font-medium pb-1">Each extra kg</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {SHIPPING_ZONES.map(zone => (
+                                    <tr key={zone}>
+                                        <td className="py-1 text-slate-700 font-medium">{SHIPPING_ZONE_LABELS[zone]}</td>
+                                        {(['upto_half_kg', 'upto_1kg', 'additional_kg'] as (keyof WeightSlabRate)[]).map(slab => (
+                                            <td key={slab} className="py-1">
+                                                <input 
+                                                    type="number" 
+                                                    className="w-24 px-2 py-1 border rounded text-sm"
+                                                    value={value.slabs![zone][slab]}
+                                                    onChange={(e) => handleSlabChange(key, zone, slab, e.target.value)}
+                                                />
+                                            </td>
+                                        ))}
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
                 </div>
             ))}
         </div>
@@ -0,0 +1,413 @@
+import React, { useMemo, useState } from 'react';
+import { Order, OrderStatus, CourierClaim, ClaimReason, ClaimStatus } from '../types';
+import { formatCurrency } from '../services/calculator';
+import { buildAgingReport, AGING_FLAG_LABELS, CLAIM_REASON_LABELS, CLAIM_STATUS_LABELS } from '../services/aging';
+import { STALE_TRACKING_DAYS, RTO_RECEIPT_DAYS } from '../constants';
+import { Hourglass, RefreshCw, Loader2, PackageCheck, FileWarning, Save, X } from 'lucide-react';
+
+interface ShipmentAgingProps {
+  orders: Order[];
+  claims: CourierClaim[];
+  onSaveClaim: (claim: CourierClaim) => Promise<void>;
+  onMarkRtoReceived: (order: Order) => Promise<void>;
+  onTrackOrder?: (order: Order) => Promise<OrderStatus>;
+}
+
+interface ClaimDraft {
+  order: Order;
+  reason: ClaimReason;
+  amount: string;
+  reference: string;
+}
+
+const CLAIM_STATUS_STYLES: Record<ClaimStatus, string> = {
+  OPEN: 'bg-amber-50 text-amber-700 border-amber-200',
+  APPROVED: 'bg-blue-50 text-blue-700 border-blue-200',
+  REJECTED: 'bg-red-50 text-red-700 border-red-200',
+  SETTLED: 'bg-green-50 text-green-700 border-green-200'
+};
+
+const claimKey = (c: { courier: string; tracking_number: string }) => `${c.courier}|${c.tracking_number}`;
+
+const ShipmentAging: React.FC<ShipmentAgingProps> = ({ orders, claims, onSaveClaim, onMarkRtoReceived, onTrackOrder }) => {
+  const [view, setView] = useState<'FLAGGED' | 'CLAIMS'>('FLAGGED');
+  const [noUpdateDays, setNoUpdateDays] = useState(STALE_TRACKING_DAYS);
+  const [rtoReceiptDays, setRtoReceiptDays] = useState(RTO_RECEIPT_DAYS);
+  const [draft, setDraft] = useState<ClaimDraft | null>(null);
+  const [claimEdits, setClaimEdits] = useState<Record<string, Partial<CourierClaim>>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const report = useMemo(
+      () => buildAgingReport(orders, claims, { no_update_days: noUpdateDays, rto_receipt_days: rtoReceiptDays }),
+      [orders, claims, noUpdateDays, rtoReceiptDays]
+  );
+  const flagged = report.filter(c => c.flags.length > 0);
+  const silentCount = flagged.filter(c => c.flags.includes('NO_UPDATE')).length;
+  const rtoMissingCount = flagged.filter(c => c.flags.includes('RTO_NOT_RECEIVED')).length;
+  const codAtRisk = flagged.filter(c => !c.claim).reduce((sum, c) => sum + c.order.cod_amount, 0);
+
+  const ordersById = useMemo(() => new Map(orders.map(o => [o.id, o])), [orders]);
+  const sortedClaims = useMemo(() => [...claims].sort((a, b) => new Date(b.raised_at).getTime() - new Date(a.raised_at).getTime()), [claims]);
+  const openClaims = claims.filter(c => c.status === 'OPEN' || c.status === 'APPROVED');
+  const recovered = claims.reduce((sum, c) => sum + (c.status === 'SETTLED' ? c.settled_amount || 0 : 0), 0);
+
+  const handleRefresh = async (order: Order) => {
+      if (!onTrackOrder) return;
+      setBusyId(order.id);
+      setErrors(prev => ({ ...prev, [order.id]: '' }));
+      try {
+          await onTrackOrder(order);
+      } catch (e: any) {
+          setErrors(prev => ({ ...prev, [order.id]: e.message || 'Tracking failed' }));
+      }
+      setBusyId(null);
+  };
+
+  const handleReceived = async (order: Order) => {
+      setBusyId(order.id);
+      await onMarkRtoReceived(order);
+      setBusyId(null);
+  };
+
+  const handleRaiseClaim = async () => {
+      if (!draft) return;
+      const amount = parseFloat(draft.amount);
+      if (isNaN(amount) || amount <= 0) {
+          setErrors(prev => ({ ...prev, [draft.order.id]: 'Enter the claim amount' }));
+          return;
+      }
+
+      setBusyId(draft.order.id);
+      try {
+          await onSaveClaim({
+              courier: draft.order.courier,
+              tracking_number: draft.order.tracking_number,
+              order_id: draft.order.id,
+              reason: draft.reason,
+              status: 'OPEN',
+              claim_amount: amount,
+              reference: draft.reference.trim() || undefined,
+              raised_at: new Date().toISOString()
+          });
+          setDraft(null);
+      } catch (e: any) {
+          setErrors(prev => ({ ...prev, [draft.order.id]: e.message || 'Could not save the claim' }));
+      }
+      setBusyId(null);
+  };
+
+  const handleUpdateClaim = async (claim: CourierClaim) => {
+      const key = claimKey(claim);
+      const edits = claimEdits[key];
+      if (!edits) return;
+
+      const status = edits.status || claim.status;
+      const isResolved = status === 'SETTLED' || status === 'REJECTED';
+      setBusyId(key);
+      try {
+          await onSaveClaim({
+              ...claim,
+              ...edits,
+              resolved_at: isResolved ? (claim.resolved_at || new Date().toISOString()) : undefined
+          });
+          setClaimEdits(prev => {
+              const next = { ...prev };
+              delete next[key];
+              return next;
+          });
+      } catch (e: any) {
+          setErrors(prev => ({ ...prev, [key]: e.message || 'Could not update the claim' }));
+      }
+      setBusyId(null);
+  };
+
+  const editClaim = (claim: CourierClaim, changes: Partial<CourierClaim>) => {
+      const key = claimKey(claim);
+      setClaimEdits(prev => ({ ...prev, [key]: { ...prev[key], ...changes } }));
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-end gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-900">Stuck Shipments</h2>
+          <p className="text-slate-500 text-sm">Parcels with no courier movement and returns that never came back. Chase them or raise a claim.</p>
+        </div>
+        <div className="flex items-center gap-3 bg-white px-3 py-2 rounded-lg border border-slate-200 shadow-sm text-xs text-slate-600">
+            <label className="flex items-center gap-1.5">
+                No update for
+                <input type="number" min={1} className="w-12 px-1.5 py-1 border rounded text-sm" value={noUpdateDays} onChange={(e) => setNoUpdateDays(parseInt(e.target.value) || STALE_TRACKING_DAYS)} />
+                days
+            </label>
+            <span className="text-slate-300">|</span>
+            <label className="flex items-center gap-1.5">
+                Return open for
+                <input type="number" min={1} className="w-12 px-1.5 py-1 border rounded text-sm" value={rtoReceiptDays} onChange={(e) => setRtoReceiptDays(parseInt(e.target.value) || RTO_RECEIPT_DAYS)} />
+                days
+            </label>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="bg-white p-5 rounded-xl shadow-sm border border-slate-200">
+            <p className="text-xs font-bold text-slate-500 uppercase tracking-wide">No Courier Update</p>
+            <p className="text-2xl font-bold text-amber-600 mt-1">{silentCount}</p>
+        </div>
+        <div className="bg-white p-5 rounded-xl shadow-sm border border-slate-200">
+            <p className="text-xs font-bold text-slate-500 uppercase tracking-wide">Returns Not Received</p>
+            <p className="text-2xl font-bold text-red-600 mt-1">{rtoMissingCount}</p>
+        </div>
+        <div className="bg-white p-5 rounded-xl shadow-sm border border-slate-200">
+            <p className="text-xs font-bold text-slate-500 uppercase tracking-wide">Unclaimed COD At Risk</p>
+            <p className="text-2xl font-bold text-slate-900 mt-1">{formatCurrency(codAtRisk)}</p>
+        </div>
+        <div className="bg-white p-5 rounded-xl shadow-sm border border-slate-200">
+            <p className="text-xs font-bold text-slate-500 uppercase tracking-wide">Claims Open / Recovered</p>
+            <p className="text-2xl font-bold text-slate-900 mt-1">
+                {openClaims.length} <span className="text-base font-medium text-green-600">/ {formatCurrency(recovered)}</span>
+            </p>
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        {(['FLAGGED', 'CLAIMS'] as const).map(v => (
+            <button
+                key={v}
+                onClick={() => setView(v)}
+                className={`px-4 py-1.5 rounded-full text-xs font-semibold whitespace-nowrap transition-colors ${
+                    view === v ? 'bg-brand-600 text-white' : 'bg-white border text-slate-600 hover:bg-slate-50'
+                }`}
+            >
+                {v === 'FLAGGED' ? `Flagged (${flagged.length})` : `Claims (${claims.length})`}
+            </button>
+        ))}
+      </div>
+
+      {view === 'FLAGGED' && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-sm">
+              <thead className="bg-slate-50 border-b border-gray-200">
+                <tr>
+                  <th className="px-6 py-4 font-semibold text-slate-700">Order</th>
+                  <th className="px-6 py-4 font-semibold text-slate-700">Flag</th>
+                  <th className="px-6 py-4 font-semibold text-slate-700">Last Courier Update</th>
+                  <th className="px-6 py-4 font-semibold text-slate-700">COD</th>
+                  <th className="px-6 py-4 font-semibold text-slate-700">Action</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {flagged.length === 0 && (
+                    <tr>
+                        <td colSpan={5} className="px-6 py-12 text-center text-slate-500">
+                            <Hourglass size={28} className="mx-auto text-slate-300 mb-2" />
+                            Every parcel has moved recently and every return is back.
+                        </td>
+                    </tr>
+                )}
+                {flagged.map(c => {
+                    const o = c.order;
+                    const isBusy = busyId === o.id;
+                    const isReturn = o.status === OrderStatus.RTO_INITIATED || o.status === OrderStatus.RETURNED;
+                    return (
+                      <tr key={o.id} className="hover:bg-slate-50 transition-colors align-top">
+                        <td className="px-6 py-4">
+                            <div className="font-medium text-slate-900">{o.shopify_order_number}</div>
+                            <div className="text-xs text-slate-500 mt-0.5">{o.courier} · <span className="font-mono">{o.tracking_number}</span></div>
+                            <div className="text-xs text-slate-400 mt-0.5">{o.customer_city}</div>
+                        </td>
+                        <td className="px-6 py-4">
+                            <div className="flex flex-col gap-1 items-start">
+                                {c.flags.map(f => (
+                                    <span key={f} className={`px-2 py-0.5 rounded border text-[10px] font-bold uppercase ${f === 'RTO_NOT_RECEIVED' ? 'bg-red-50 text-red-700 border-red-200' : 'bg-amber-50 text-amber-700 border-amber-200'}`}>
+                                        {AGING_FLAG_LABELS[f]}
+                                    </span>
+                                ))}
+                            </div>
+                            {c.days_in_rto !== undefined && (
+                                <div className="text-xs text-slate-500 mt-1">Returning for {Math.floor(c.days_in_rto)}d</div>
+                            )}
+                        </td>
+                        <td className="px-6 py-4 max-w-xs">
+                            <div className="text-slate-700">{o.courier_raw_status || o.status}</div>
+                            <div className="text-xs text-slate-400 mt-0.5">
+                                {new Date(c.last_update_at).toLocaleDateString()} · <span className={c.days_since_update > noUpdateDays ? 'text-red-500 font-bold' : ''}>{Math.floor(c.days_since_update)}d ago</span>
+                            </div>
+                        </td>
+                        <td className="px-6 py-4 font-medium">{formatCurrency(o.cod_amount)}</td>
+                        <td className="px-6 py-4">
+                            {draft?.order.id === o.id ? (
+                                <div className="space-y-2 min-w-[240px]">
+                                    <select
+                                        className="w-full px-2 py-1.5 border border-slate-200 rounded-md text-xs bg-white"
+                                        value={draft.reason}
+                                        onChange={(e) => setDraft({ ...draft, reason: e.target.value as ClaimReason })}
+                                    >
+                                        {(Object.keys(CLAIM_REASON_LABELS) as ClaimReason[]).map(r => <option key={r} value={r}>{CLAIM_REASON_LABELS[r]}</option>)}
+                                    </select>
+                                    <div className="flex gap-2">
+                                        <input
+                                            type="number"
+                                            placeholder="Amount"
+                                            className="w-24 px-2 py-1.5 border border-slate-200 rounded-md text-xs"
+                                            value={draft.amount}
+                                            onChange={(e) => setDraft({ ...draft, amount: e.target.value })}
+                                        />
+                                        <input
+                                            type="text"
+                                            placeholder="Courier ticket # (optional)"
+                                            className="flex-1 min-w-0 px-2 py-1.5 border border-slate-200 rounded-md text-xs"
+                                            value={draft.reference}
+                                            onChange={(e) => setDraft({ ...draft, reference: e.target.value })}
+                                        />
+                                    </div>
+                                    <div className="flex gap-2">
+                                        <button
+                                            onClick={handleRaiseClaim}
+                                            disabled={isBusy}
+                                            className="flex items-center gap-1 bg-brand-600 text-white px-2.5 py-1.5 rounded-lg text-xs font-bold hover:bg-brand-700 transition-colors disabled:opacity-50"
+                                        >
+                                            {isBusy ? <Loader2 size={12} className="animate-spin" /> : <FileWarning size={12} />} Raise Claim
+                                        </button>
+                                        <button onClick={() => setDraft(null)} className="text-slate-400 hover:text-slate-600 p-1.5">
+                                            <X size={14} />
+                                        </button>
+                                    </div>
+                                </div>
+                            ) : (
+                                <div className="flex flex-wrap gap-2 items-center">
+                                    {c.claim ? (
+                                        <span className={`px-2 py-1 rounded border text-xs font-bold ${CLAIM_STATUS_STYLES[c.claim.status]}`}>
+                                            Claim {CLAIM_STATUS_LABELS[c.claim.status]}
+                                        </span>
+                                    ) : (
+                                        <button
+                                            onClick={() => setDraft({ order: o, reason: isReturn ? 'RTO_NOT_RECEIVED' : 'LOST', amount: String(o.cod_amount), reference: '' })}
+                                            className="flex items-center gap-1 bg-white border border-slate-300 text-slate-700 px-2.5 py-1.5 rounded-lg text-xs font-bold hover:bg-slate-50"
+                                        >
+                                            <FileWarning size={12} /> Claim
+                                        </button>
+                                    )}
+                                    {isReturn && (
+                                        <button
+                                            onClick={() => handleReceived(o)}
+                                            disabled={isBusy}
+                                            className="flex items-center gap-1 bg-white border border-slate-300 text-slate-700 px-2.5 py-1.5 rounded-lg text-xs font-bold hover:bg-green-50 hover:text-green-700 hover:border-green-200 disabled:opacity-50"
+                                        >
+                                            <PackageCheck size={12} /> Received
+                                        </button>
+                                    )}
+                                    {onTrackOrder && (
+                                        <button
+                                            onClick={() => handleRefresh(o)}
+                                            disabled={isBusy}
+                                            className="text-slate-400 hover:text-brand-600 p-1.5 disabled:opacity-50"
+                                            title="Refresh tracking"
+                                        >
+                                            {isBusy ? <Loader2 size={14} className="animate-spin" /> : <RefreshCw size={14} />}
+                                        </button>
+                                    )}
+                                </div>
+                            )}
+                            {errors[o.id] && <p className="text-xs text-red-600 mt-1">{errors[o.id]}</p>}
+                        </td>
+                      </tr>
+                    );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {view === 'CLAIMS' && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-sm">
+              <thead className="bg-slate-50 border-b border-gray-200">
+                <tr>
+                  <th className="px-6 py-4 font-semibold text-slate-700">Order</th>
+                  <th className="px-6 py-4 font-semibold text-slate-700">Reason</th>
+                  <th className="px-6 py-4 font-semibold text-slate-700">Claimed</th>
+                  <th className="px-6 py-4 font-semibold text-slate-700">Outcome</th>
+                  <th className="px-6 py-4 font-semibold text-slate-700">Settled</th>
+                  <th className="px-6 py-4 font-semibold text-slate-700">Ticket #</th>
+                  <th className="px-6 py-4"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {sortedClaims.length === 0 && (
+                    <tr>
+                        <td colSpan={7} className="px-6 py-12 text-center text-slate-500">
+                            <FileWarning size={28} className="mx-auto text-slate-300 mb-2" />
+                            No claims raised yet.
+                        </td>
+                    </tr>
+                )}
+                {sortedClaims.map(claim => {
+                    const key = claimKey(claim);
+                    const edits = claimEdits[key] || {};
+                    const order = ordersById.get(claim.order_id);
+                    const status = edits.status || claim.status;
+                    return (
+                      <tr key={key} className="hover:bg-slate-50 transition-colors">
+                        <td className="px-6 py-4">
+                            <div className="font-medium text-slate-900">{order?.shopify_order_number || claim.order_id}</div>
+                            <div className="text-xs text-slate-500 mt-0.5">{claim.courier} · <span className="font-mono">{claim.tracking_number}</span></div>
+                        </td>
+                        <td className="px-6 py-4">
+                            <div className="text-slate-700">{CLAIM_REASON_LABELS[claim.reason]}</div>
+                            <div className="text-xs text-slate-400 mt-0.5">Raised {new Date(claim.raised_at).toLocaleDateString()}</div>
+                        </td>
+                        <td className="px-6 py-4 font-medium">{formatCurrency(claim.claim_amount)}</td>
+                        <td className="px-6 py-4">
+                            <select
+                                className={`px-2 py-1 border rounded-md text-xs font-bold ${CLAIM_STATUS_STYLES[status]}`}
+                                value={status}
+                                onChange={(e) => editClaim(claim, { status: e.target.value as ClaimStatus })}
+                            >
+                                {(Object.keys(CLAIM_STATUS_LABELS) as ClaimStatus[]).map(s => <option key={s} value={s}>{CLAIM_STATUS_LABELS[s]}</option>)}
+                            </select>
+                            {claim.resolved_at && <div className="text-[10px] text-slate-400 mt-1">{new Date(claim.resolved_at).toLocaleDateString()}</div>}
+                        </td>
+                        <td className="px-6 py-4">
+                            <input
+                                type="number"
+                                className="w-24 px-2 py-1 border border-slate-200 rounded-md text-xs"
+                                placeholder="0"
+                                value={edits.settled_amount ?? claim.settled_amount ?? ''}
+                                onChange={(e) => editClaim(claim, { settled_amount: parseFloat(e.target.value) || undefined })}
+                            />
+                        </td>
+                        <td className="px-6 py-4">
+                            <input
+                                type="text"
+                                className="w-28 px-2 py-1 border border-slate-200 rounded-md text-xs"
+                                value={edits.reference ?? claim.reference ?? ''}
+                                onChange={(e) => editClaim(claim, { reference: e.target.value })}
+                            />
+                        </td>
+                        <td className="px-6 py-4 text-right">
+                            <button
+                                onClick={() => handleUpdateClaim(claim)}
+                                disabled={!claimEdits[key] || busyId === key}
+                                className="flex items-center gap-1 bg-brand-600 text-white px-2.5 py-1.5 rounded-lg text-xs font-bold hover:bg-brand-700 transition-colors disabled:opacity-30"
+                            >
+                                {busyId === key ? <Loader2 size={12} className="animate-spin" /> : <Save size={12} />} Save
+                            </button>
+                            {errors[key] && <p className="text-xs text-red-600 mt-1">{errors[key]}</p>}
+                        </td>
+                      </tr>
+                    );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ShipmentAging;
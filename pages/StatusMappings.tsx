@@ -0,0 +1,199 @@
+import React, { useMemo, useState } from 'react';
+import { Order, OrderStatus, StatusMapping, CourierName } from '../types';
+import { buildStatusMappingIndex, getDefaultStatusMappings, getUnmappedStatuses } from '../services/statusMappings';
+import { ListChecks, AlertTriangle, Save, Trash2, Loader2, CheckCircle2, Download } from 'lucide-react';
+
+interface StatusMappingsProps {
+  orders: Order[];
+  mappings: StatusMapping[];
+  connectedCouriers?: CourierName[]; // Couriers whose adapter defaults can be loaded
+  onSaveMappings: (mappings: StatusMapping[]) => Promise<void>;
+  onDeleteMapping: (mapping: StatusMapping) => Promise<void>;
+}
+
+const STATUS_OPTIONS = Object.values(OrderStatus);
+
+const StatusMappings: React.FC<StatusMappingsProps> = ({ orders, mappings, connectedCouriers = [], onSaveMappings, onDeleteMapping }) => {
+  const index = useMemo(() => buildStatusMappingIndex(mappings), [mappings]);
+  const unmapped = useMemo(() => getUnmappedStatuses(orders, index), [orders, index]);
+
+  // Pending choices for unmapped rows, keyed by courier|raw_status (defaults to the adapter's suggestion)
+  const [choices, setChoices] = useState<Record<string, OrderStatus>>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [isLoadingDefaults, setIsLoadingDefaults] = useState(false);
+  const [courierFilter, setCourierFilter] = useState<string>('ALL');
+
+  const rowKey = (courier: CourierName, raw: string) => `${courier}|${raw}`;
+
+  const handleSaveAll = async () => {
+      if (unmapped.length === 0) return;
+      setIsSaving(true);
+      await onSaveMappings(unmapped.map(u => ({
+          courier: u.courier,
+          raw_status: u.raw_status,
+          status: choices[rowKey(u.courier, u.raw_status)] || u.suggested
+      })));
+      setChoices({});
+      setIsSaving(false);
+  };
+
+  // Adapter defaults the user has no row for yet; existing rows are never overwritten
+  const missingDefaults = useMemo(() => connectedCouriers
+      .flatMap(getDefaultStatusMappings)
+      .filter(m => !index.has(rowKey(m.courier, m.raw_status))), [connectedCouriers, index]);
+
+  const handleLoadDefaults = async () => {
+      if (missingDefaults.length === 0) return;
+      setIsLoadingDefaults(true);
+      await onSaveMappings(missingDefaults);
+      setIsLoadingDefaults(false);
+  };
+
+  const handleSaveOne = async (courier: CourierName, raw: string, status: OrderStatus) => {
+      await onSaveMappings([{ courier, raw_status: raw, status }]);
+  };
+
+  const sortedMappings = useMemo(() => {
+      return mappings
+          .filter(m => courierFilter === 'ALL' || m.courier === courierFilter)
+          .sort((a, b) => a.courier.localeCompare(b.courier) || a.raw_status.localeCompare(b.raw_status));
+  }, [mappings, courierFilter]);
+
+  const couriersWithMappings = useMemo(() => Array.from(new Set(mappings.map(m => m.courier))).sort(), [mappings]);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <div className="flex items-center gap-3 mb-1">
+          <h2 className="text-2xl font-bold text-slate-900">Status Mappings</h2>
+          <span className="bg-slate-100 text-slate-600 px-2 py-0.5 rounded-full text-xs font-bold flex items-center gap-1 border border-slate-200">
+              <ListChecks size={12} /> {mappings.length} Mapped
+          </span>
+        </div>
+        <p className="text-slate-500 text-sm">Classify courier wording so delivery and RTO numbers stay correct when couriers change their statuses.</p>
+      </div>
+
+      {/* Unmapped */}
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center">
+            <div className="flex items-center gap-2">
+                {unmapped.length > 0 ? <AlertTriangle size={18} className="text-orange-500" /> : <CheckCircle2 size={18} className="text-green-600" />}
+                <h3 className="font-bold text-slate-900">Unmapped Statuses ({unmapped.length})</h3>
+            </div>
+            {unmapped.length > 0 && (
+                <button
+                    onClick={handleSaveAll}
+                    disabled={isSaving}
+                    className="bg-brand-600 text-white px-4 py-2 rounded-lg text-xs font-bold hover:bg-brand-700 transition-colors flex items-center gap-2 disabled:opacity-50"
+                >
+                    {isSaving ? <Loader2 size={14} className="animate-spin" /> : <Save size={14} />}
+                    Save All
+                </button>
+            )}
+        </div>
+
+        {unmapped.length === 0 ? (
+            <p className="px-6 py-8 text-center text-slate-500 text-sm">Every courier status seen on your orders is mapped.</p>
+        ) : (
+            <table className="w-full text-left text-sm">
+                <thead className="bg-slate-50 border-b border-gray-200">
+                    <tr>
+                        <th className="px-6 py-3 font-semibold text-slate-700">Courier</th>
+                        <th className="px-6 py-3 font-semibold text-slate-700">Raw Status</th>
+                        <th className="px-6 py-3 font-semibold text-slate-700">Orders</th>
+                        <th className="px-6 py-3 font-semibold text-slate-700">Classify As</th>
+                        <th className="px-6 py-3"></th>
+                    </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                    {unmapped.map(u => {
+                        const k = rowKey(u.courier, u.raw_status);
+                        const choice = choices[k] || u.suggested;
+                        return (
+                            <tr key={k} className="hover:bg-slate-50">
+                                <td className="px-6 py-3 font-medium text-slate-900">{u.courier}</td>
+                                <td className="px-6 py-3 text-slate-700">{u.display}</td>
+                                <td className="px-6 py-3 text-slate-500">{u.count}</td>
+                                <td className="px-6 py-3">
+                                    <select
+                                        className="px-2 py-1 border border-slate-200 rounded-md text-xs bg-white"
+                                        value={choice}
+                                        onChange={(e) => setChoices(prev => ({ ...prev, [k]: e.target.value as OrderStatus }))}
+                                    >
+                                        {STATUS_OPTIONS.map(s => <option key={s} value={s}>{s.replace('_', ' ')}{s === u.suggested ? ' (suggested)' : ''}</option>)}
+                                    </select>
+                                </td>
+                                <td className="px-6 py-3 text-right">
+                                    <button onClick={() => handleSaveOne(u.courier, u.raw_status, choice)} className="text-xs font-bold text-brand-600 hover:text-brand-700">
+                                        Save
+                                    </button>
+                                </td>
+                            </tr>
+                        );
+                    })}
+                </tbody>
+            </table>
+        )}
+      </div>
+
+      {/* Saved */}
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center">
+            <h3 className="font-bold text-slate-900">Saved Mappings</h3>
+            <div className="flex items-center gap-2">
+                {missingDefaults.length > 0 && (
+                    <button
+                        onClick={handleLoadDefaults}
+                        disabled={isLoadingDefaults}
+                        title="Add the built-in classification of every status your connected couriers are known to send"
+                        className="bg-white border border-slate-200 text-slate-700 px-3 py-1.5 rounded-lg text-xs font-bold hover:bg-slate-50 transition-colors flex items-center gap-2 disabled:opacity-50"
+                    >
+                        {isLoadingDefaults ? <Loader2 size={14} className="animate-spin" /> : <Download size={14} />}
+                        Load Defaults ({missingDefaults.length})
+                    </button>
+                )}
+                <select
+                    className="px-2 py-1.5 border border-slate-200 rounded-lg text-xs bg-white"
+                    value={courierFilter}
+                    onChange={(e) => setCourierFilter(e.target.value)}
+                >
+                    <option value="ALL">All Couriers</option>
+                    {couriersWithMappings.map(c => <option key={c} value={c}>{c}</option>)}
+                </select>
+            </div>
+        </div>
+
+        {sortedMappings.length === 0 ? (
+            <p className="px-6 py-8 text-center text-slate-500 text-sm">No saved mappings yet. Adapter defaults are used until you classify a status.</p>
+        ) : (
+            <table className="w-full text-left text-sm">
+                <tbody className="divide-y divide-gray-100">
+                    {sortedMappings.map(m => (
+                        <tr key={`${m.courier}|${m.raw_status}`} className="hover:bg-slate-50">
+                            <td className="px-6 py-3 font-medium text-slate-900 w-40">{m.courier}</td>
+                            <td className="px-6 py-3 text-slate-700">{m.raw_status}</td>
+                            <td className="px-6 py-3">
+                                <select
+                                    className="px-2 py-1 border border-slate-200 rounded-md text-xs bg-white"
+                                    value={m.status}
+                                    onChange={(e) => onSaveMappings([{ ...m, status: e.target.value as OrderStatus }])}
+                                >
+                                    {STATUS_OPTIONS.map(s => <option key={s} value={s}>{s.replace('_', ' ')}</option>)}
+                                </select>
+                            </td>
+                            <td className="px-6 py-3 text-right">
+                                <button onClick={() => onDeleteMapping(m)} className="text-slate-400 hover:text-red-600" title="Remove (revert to adapter default)">
+                                    <Trash2 size={14} />
+                                </button>
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StatusMappings;
@@ -0,0 +1,101 @@
+import { ClaimReason, ClaimStatus, CourierClaim, Order, OrderStatus, TrackingCheckpoint } from '../types';
+import { getCourierAdapter, isKnownCourier } from './couriers/registry';
+import { getDispatchedAt } from './calculator';
+
+export type AgingFlag = 'NO_UPDATE' | 'RTO_NOT_RECEIVED';
+
+export interface AgingCase {
+  order: Order;
+  flags: AgingFlag[];
+  last_update_at: string; // Latest courier scan, or dispatch/order date when there is none
+  days_since_update: number;
+  rto_since?: string; // When the return started
+  days_in_rto?: number;
+  claim?: CourierClaim;
+}
+
+export interface AgingThresholds {
+  no_update_days: number;
+  rto_receipt_days: number;
+}
+
+export const AGING_FLAG_LABELS: Record<AgingFlag, string> = {
+  NO_UPDATE: 'No courier update',
+  RTO_NOT_RECEIVED: 'Return not received'
+};
+
+export const CLAIM_REASON_LABELS: Record<ClaimReason, string> = {
+  LOST: 'Lost in transit',
+  RTO_NOT_RECEIVED: 'Return not received',
+  DAMAGED: 'Damaged'
+};
+
+export const CLAIM_STATUS_LABELS: Record<ClaimStatus, string> = {
+  OPEN: 'Open',
+  APPROVED: 'Approved',
+  REJECTED: 'Rejected',
+  SETTLED: 'Settled'
+};
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const isReturnCheckpoint = (order: Order, checkpoint: TrackingCheckpoint): boolean => {
+  if (!isKnownCourier(order.courier)) return false;
+  const status = getCourierAdapter(order.courier).mapStatus(checkpoint.status);
+  return status === OrderStatus.RTO_INITIATED || status === OrderStatus.RETURNED;
+};
+
+/**
+ * When the return began: the oldest return checkpoint, else the latest scan, else the order date.
+ */
+export const getRtoStartedAt = (order: Order): string => {
+  const history = order.tracking_history || [];
+  const returns = history.filter(c => isReturnCheckpoint(order, c));
+  return returns[returns.length - 1]?.timestamp || history[0]?.timestamp || order.created_at;
+};
+
+/**
+ * Parcels that have gone quiet or whose return never made it back, oldest update first.
+ * A RETURNED order stays on the report until it is checked into the warehouse, whatever the courier says.
+ * Orders with a claim are always listed so the claim can be followed up.
+ */
+export const buildAgingReport = (orders: Order[], claims: CourierClaim[], thresholds: AgingThresholds, now: Date = new Date()): AgingCase[] => {
+  const claimByKey = new Map(claims.map(c => [`${c.courier}|${c.tracking_number.toLowerCase()}`, c]));
+  const daysSince = (iso: string) => Math.max(0, (now.getTime() - new Date(iso).getTime()) / DAY_MS);
+
+  return orders
+    .filter(o =>
+      o.status === OrderStatus.IN_TRANSIT ||
+      o.status === OrderStatus.DELIVERY_ATTEMPTED ||
+      o.status === OrderStatus.RTO_INITIATED ||
+      (o.status === OrderStatus.RETURNED && !o.rto_received_at)
+    )
+    .map(order => {
+      const last_update_at = order.tracking_history?.[0]?.timestamp || getDispatchedAt(order)?.toISOString() || order.created_at;
+      const days_since_update = daysSince(last_update_at);
+      const flags: AgingFlag[] = [];
+      const isReturn = order.status === OrderStatus.RTO_INITIATED || order.status === OrderStatus.RETURNED;
+
+      if (order.status !== OrderStatus.RETURNED && days_since_update > thresholds.no_update_days) flags.push('NO_UPDATE');
+
+      let rto_since: string | undefined;
+      let days_in_rto: number | undefined;
+      if (isReturn) {
+        rto_since = getRtoStartedAt(order);
+        days_in_rto = daysSince(rto_since);
+        if (days_in_rto > thresholds.rto_receipt_days) flags.push('RTO_NOT_RECEIVED');
+      }
+
+      return {
+        order,
+        flags,
+        last_update_at,
+        days_since_update,
+        rto_since,
+        days_in_rto,
+        claim: claimByKey.get(`${order.courier}|${String(order.tracking_number).toLowerCase()}`)
+      };
+    })
+    .filter(c => c.flags.length > 0 || c.claim)
+    .sort((a, b) => new Date(a.last_update_at).getTime() - new Date(b.last_update_at).getTime());
+};
@@ -0,0 +1,43 @@
+import { BookingRule, CourierName, Order, Product } from '../types';
+import { normalizeCity } from './cities';
+import { getOrderWeight } from './rateCards';
+
+/**
+ * Checks a single rule against an order. Unset conditions always match.
+ * Weight is the same estimate the booking sends (see getOrderWeight).
+ */
+export const matchesBookingRule = (order: Order, rule: BookingRule, products: Product[]): boolean => {
+  if (rule.cities && rule.cities.length > 0) {
+    const city = normalizeCity(order.customer_city);
+    if (!rule.cities.some(c => normalizeCity(c) === city)) return false;
+  }
+
+  if (rule.min_cod !== undefined && order.cod_amount < rule.min_cod) return false;
+  if (rule.max_cod !== undefined && order.cod_amount > rule.max_cod) return false;
+
+  const weight = getOrderWeight(order, products);
+  if (rule.max_weight_kg !== undefined && weight > rule.max_weight_kg) return false;
+
+  return true;
+};
+
+/**
+ * Picks the courier for an unbooked order: the first matching rule wins, otherwise the fallback.
+ * Rules for couriers that cannot book (not connected / no booking API) are skipped.
+ */
+export const assignCourier = (order: Order, rules: BookingRule[], bookable: CourierName[], fallback: CourierName, products: Product[]): CourierName => {
+  const rule = rules.find(r => bookable.includes(r.courier) && matchesBookingRule(order, r, products));
+  return rule ? rule.courier : fallback;
+};
+
+/**
+ * Human readable summary of a rule's conditions, e.g. "Lahore, Karachi · COD ≤ 5,000".
+ */
+export const describeBookingRule = (rule: BookingRule): string => {
+  const parts: string[] = [];
+  if (rule.cities && rule.cities.length > 0) parts.push(rule.cities.join(', '));
+  if (rule.min_cod !== undefined) parts.push(`COD ≥ ${rule.min_cod.toLocaleString()}`);
+  if (rule.max_cod !== undefined) parts.push(`COD ≤ ${rule.max_cod.toLocaleString()}`);
+  if (rule.max_weight_kg !== undefined) parts.push(`≤ ${rule.max_weight_kg} kg`);
+  return parts.length > 0 ? parts.join(' · ') : 'All orders';
+};
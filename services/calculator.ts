@@ -1,6 +1,7 @@
 
 import { Order, AdSpend, DashboardMetrics, OrderStatus, PaymentStatus, CourierName, Product, ShopifyOrder } from '../types';
-import { COURIER_RATES } from '../constants';
+import { COURIER_RATES, DEFAULT_SLA_DAYS } from '../constants';
+import { normalizeCity } from './cities';
 
 export const formatCurrency = (amount: number): string => {
   return new Intl.NumberFormat('en-PK', {
@@ -11,6 +12,21 @@ export const formatCurrency = (amount: number): string => {
   }).format(amount);
 };
 
+/**
+ * Courier charges for an order: the invoiced amount when the courier has reported it, otherwise the rate-card estimate.
+ */
+export const getCourierCharges = (order: Order): number => {
+  return order.actual_courier_charges ?? (order.courier_fee + order.rto_penalty);
+};
+
+/**
+ * Invoiced minus estimated charges (positive = billed above the rate card), or null while only the estimate is known.
+ */
+export const getCourierChargeVariance = (order: Order): number | null => {
+  if (order.actual_courier_charges === undefined) return null;
+  return order.actual_courier_charges - (order.courier_fee + order.rto_penalty);
+};
+
 export const calculateMetrics = (
     orders: Order[], 
     adSpend: AdSpend[], 
@@ -38,7 +54,7 @@ export const calculateMetrics = (
     const isCancelled = order.status === OrderStatus.CANCELLED;
     const isPending = order.status === OrderStatus.PENDING;
     const isBooked = order.status === OrderStatus.BOOKED;
-    const isInTransit = order.status === OrderStatus.IN_TRANSIT;
+    const isInTransit = order.status === OrderStatus.IN_TRANSIT || order.status === OrderStatus.DELIVERY_ATTEMPTED;
 
     const isDispatched = !isCancelled && !isPending && !isBooked;
 
@@ -66,8 +82,7 @@ export const calculateMetrics = (
     if (isDispatched) {
        dispatched_orders++;
 
-       total_shipping_expense += order.courier_fee;
-       total_shipping_expense += order.rto_penalty; // Add Return charges if applicable
+       total_shipping_expense += getCourierCharges(order); // Forward + Return (actual when invoiced)
        total_shipping_expense += order.packaging_cost;
        
        total_overhead_cost += order.overhead_cost;
@@ -185,18 +200,98 @@ export interface CourierStats {
   delivery_rate: number;
   cash_pending: number;
   shipping_spend: number;
+  invoiced_orders: number; // Orders with actual courier charges
+  charge_variance: number; // Invoiced minus rate card across those orders
+  median_delivery_days: number | null; // Dispatch to delivery, over orders with tracking timestamps
+  p90_delivery_days: number | null;
+  median_return_days: number | null; // Dispatch until back with the seller
+  late_rate: number; // % of timed deliveries slower than the SLA target
+  stuck: number; // In transit for longer than the SLA target
 }
 
-export const calculateCourierPerformance = (orders: Order[]): CourierStats[] => {
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+/**
+ * When the parcel left the warehouse: the load-sheet hand-over, else the first courier scan, else the booking.
+ */
+export const getDispatchedAt = (order: Order): Date | null => {
+  const history = order.tracking_history || [];
+  const value = order.handed_over_at || (history.length > 0 ? history[history.length - 1].timestamp : order.booked_at);
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+// Days from dispatch to the latest scan, for orders that have reached `status`
+const getClosingDays = (order: Order, status: OrderStatus): number | null => {
+  const history = order.tracking_history || [];
+  if (order.status !== status || history.length === 0) return null;
+
+  const closedAt = new Date(history[0].timestamp).getTime();
+  const dispatchedAt = getDispatchedAt(order)?.getTime();
+  if (isNaN(closedAt) || dispatchedAt === undefined || closedAt < dispatchedAt) return null;
+  return (closedAt - dispatchedAt) / DAY_MS;
+};
+
+/**
+ * Days from dispatch to delivery, or null when the order is not delivered or has no tracking history.
+ */
+export const getDeliveryDays = (order: Order): number | null => getClosingDays(order, OrderStatus.DELIVERED);
+
+/**
+ * Days from dispatch until the parcel was back with the seller, or null when it has not been returned.
+ */
+export const getReturnDays = (order: Order): number | null => getClosingDays(order, OrderStatus.RETURNED);
+
+// Nearest-rank percentile
+const percentile = (values: number[], p: number): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)];
+};
+
+const isInTransit = (order: Order) =>
+  order.status === OrderStatus.IN_TRANSIT || order.status === OrderStatus.DELIVERY_ATTEMPTED;
+
+export interface StuckShipment {
+  order: Order;
+  days_in_transit: number;
+}
+
+/**
+ * In-transit parcels older than the SLA target, longest first.
+ * Orders without any dispatch timestamp are aged from the order date.
+ */
+export const getStuckShipments = (orders: Order[], slaDays: number = DEFAULT_SLA_DAYS, now: Date = new Date()): StuckShipment[] => {
+  return orders
+    .filter(isInTransit)
+    .map(order => {
+      const since = getDispatchedAt(order) || new Date(order.created_at);
+      return { order, days_in_transit: (now.getTime() - since.getTime()) / DAY_MS };
+    })
+    .filter(s => s.days_in_transit > slaDays)
+    .sort((a, b) => b.days_in_transit - a.days_in_transit);
+};
+
+export const calculateCourierPerformance = (orders: Order[], slaDays: number = DEFAULT_SLA_DAYS): CourierStats[] => {
   const stats: Record<string, CourierStats> = {};
+  const deliveryDays: Record<string, number[]> = {};
+  const returnDays: Record<string, number[]> = {};
 
   Object.values(CourierName).forEach(name => {
     stats[name] = { 
       name, total_orders: 0, delivered: 0, rto: 0, in_transit: 0,
-      delivery_rate: 0, cash_pending: 0, shipping_spend: 0 
+      delivery_rate: 0, cash_pending: 0, shipping_spend: 0,
+      invoiced_orders: 0, charge_variance: 0,
+      median_delivery_days: null, p90_delivery_days: null, median_return_days: null,
+      late_rate: 0, stuck: 0
     };
+    deliveryDays[name] = [];
+    returnDays[name] = [];
   });
 
+  const stuckIds = new Set(getStuckShipments(orders, slaDays).map(s => s.order.id));
+
   orders.forEach(order => {
     const s = stats[order.courier];
     if (!s) return;
@@ -209,27 +304,83 @@ export const calculateCourierPerformance = (orders: Order[]): CourierStats[] =>
     if (!isDispatched) return;
 
     s.total_orders++;
-    s.shipping_spend += (order.courier_fee + order.rto_penalty);
+    s.shipping_spend += getCourierCharges(order);
+
+    const variance = getCourierChargeVariance(order);
+    if (variance !== null) {
+      s.invoiced_orders++;
+      s.charge_variance += variance;
+    }
 
     if (order.status === OrderStatus.DELIVERED) {
       s.delivered++;
       if (order.payment_status === PaymentStatus.UNPAID) {
         s.cash_pending += order.cod_amount;
       }
+      const days = getDeliveryDays(order);
+      if (days !== null) deliveryDays[order.courier].push(days);
     } else if (order.status === OrderStatus.RETURNED || order.status === OrderStatus.RTO_INITIATED) {
       s.rto++;
-    } else if (order.status === OrderStatus.IN_TRANSIT) {
+      const days = getReturnDays(order);
+      if (days !== null) returnDays[order.courier].push(days);
+    } else if (isInTransit(order)) {
       s.in_transit++;
+      if (stuckIds.has(order.id)) s.stuck++;
     }
   });
 
   return Object.values(stats).map(s => {
     const closed_orders = s.delivered + s.rto;
     s.delivery_rate = closed_orders > 0 ? (s.delivered / closed_orders) * 100 : 0;
+
+    const timed = deliveryDays[s.name];
+    s.median_delivery_days = percentile(timed, 50);
+    s.p90_delivery_days = percentile(timed, 90);
+    s.median_return_days = percentile(returnDays[s.name], 50);
+    s.late_rate = timed.length > 0 ? (timed.filter(d => d > slaDays).length / timed.length) * 100 : 0;
     return s;
   }).sort((a, b) => b.delivery_rate - a.delivery_rate);
 };
 
+export interface CityCourierStats extends CourierStats {
+  city: string; // Normalized key, see normalizeCity
+  rto_rate: number; // % of dispatched orders
+  avg_delivery_days: number | null;
+}
+
+/**
+ * Courier performance split by destination city. Only courier/city pairs with dispatched orders are returned.
+ */
+export const calculateCityCourierPerformance = (orders: Order[]): CityCourierStats[] => {
+  const byCity = new Map<string, Order[]>();
+  orders.forEach(o => {
+    const city = normalizeCity(o.customer_city) || 'unknown';
+    if (!byCity.has(city)) byCity.set(city, []);
+    byCity.get(city)!.push(o);
+  });
+
+  const result: CityCourierStats[] = [];
+  byCity.forEach((cityOrders, city) => {
+    calculateCourierPerformance(cityOrders)
+      .filter(s => s.total_orders > 0)
+      .forEach(s => {
+        const days = cityOrders
+          .filter(o => o.courier === s.name)
+          .map(getDeliveryDays)
+          .filter((d): d is number => d !== null);
+
+        result.push({
+          ...s,
+          city,
+          rto_rate: (s.rto / s.total_orders) * 100,
+          avg_delivery_days: days.length > 0 ? days.reduce((a, b) => a + b, 0) / days.length : null
+        });
+      });
+  });
+
+  return result;
+};
+
 export interface ProductPerformance {
   id: string;
   title: string;
@@ -327,7 +478,7 @@ export const calculateProductPerformance = (
                          order.status !== OrderStatus.BOOKED;
 
     const totalOrderShippingCost = isChargeable 
-        ? order.courier_fee + order.rto_penalty + order.packaging_cost
+        ? getCourierCharges(order) + order.packaging_cost
         : 0;
         
     const shippingPerItem = totalOrderShippingCost / itemCount;
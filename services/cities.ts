@@ -0,0 +1,23 @@
+import { CITY_ALIASES } from '../constants';
+
+/**
+ * Canonical lower-case key for a city, so "Lhr", "Lahore " and "LAHORE" group together.
+ * Punctuation and province suffixes ("Lahore, Punjab", "D.G. Khan") are dropped before the alias lookup.
+ */
+export const normalizeCity = (city: string | undefined): string => {
+  const key = String(city || '')
+    .toLowerCase()
+    .split(',')[0]
+    .replace(/[.\-_/]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return CITY_ALIASES[key] || key;
+};
+
+/**
+ * Display form of a normalized key, e.g. "dera ghazi khan" -> "Dera Ghazi Khan".
+ */
+export const formatCityName = (key: string): string => {
+  if (!key || key === 'unknown') return 'Unknown';
+  return key.replace(/\b\w/g, ch => ch.toUpperCase());
+};
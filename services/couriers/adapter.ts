@@ -1,19 +1,61 @@
-import { IntegrationConfig, TrackingUpdate, Order, CourierName } from '../../types';
+import { IntegrationConfig, TrackingUpdate, Order, CourierName, OrderStatus, NdrAction, CourierSettlement, CourierTerminal } from '../../types.js';
 
 export interface CourierAdapter {
   name: CourierName;
+
+  /**
+   * Raw statuses the courier is known to send. Seeded, with their mapStatus classification,
+   * into the user's status mapping table when the courier is first connected.
+   */
+  knownStatuses: string[];
   
   /**
    * Fetches the latest status from the courier API.
    * In production, this runs on the server to avoid CORS.
    */
   track(trackingNumber: string, config: IntegrationConfig): Promise<TrackingUpdate>;
+
+  /**
+   * Optional: Fetches the latest status for many consignments in one call.
+   * Only implemented by couriers that expose a multi-CN tracking endpoint.
+   */
+  trackBulk?(trackingNumbers: string[], config: IntegrationConfig): Promise<TrackingUpdate[]>;
+
+  /**
+   * Built-in classification of the courier's raw status text.
+   * Used when the user has not mapped a status, and to suggest seeds for the mapping table.
+   */
+  mapStatus(raw: string): OrderStatus;
   
   /**
    * Pushes a new order to the courier system to generate a tracking number.
+   * `order.weight_kg` is expected to be resolved by the caller (getOrderWeight), as adapters have no product weights.
    */
   createBooking(order: Order, config: IntegrationConfig): Promise<string>;
+
+  /**
+   * Optional: Voids a booking before pickup so the courier does not charge for it.
+   * Only implemented by couriers that expose a cancellation endpoint.
+   */
+  cancelBooking?(trackingNumber: string, config: IntegrationConfig): Promise<void>;
+
+  /**
+   * Optional: Sends shipper advice on a failed delivery attempt (reattempt or return to origin).
+   * Only implemented by couriers that accept NDR actions over the API.
+   */
+  submitNdrAction?(trackingNumber: string, action: NdrAction, config: IntegrationConfig, remarks?: string): Promise<void>;
   
+  /**
+   * Optional: Looks up whether the courier has paid out the COD of delivered consignments.
+   * Only implemented by couriers whose order list carries no payment info.
+   */
+  fetchSettlements?(trackingNumbers: string[], config: IntegrationConfig): Promise<CourierSettlement[]>;
+
+  /**
+   * Optional: Lists the courier's terminals, for couriers that book terminal to terminal.
+   */
+  getTerminals?(config: IntegrationConfig): Promise<CourierTerminal[]>;
+
   /**
    * Validates if the provided credentials work.
    */
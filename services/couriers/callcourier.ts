@@ -0,0 +1,198 @@
+import { CourierAdapter } from './adapter.js';
+import { IntegrationConfig, TrackingUpdate, OrderStatus, Order, CourierName, PaymentStatus } from '../../types.js';
+import { COURIER_RATES } from '../../constants.js';
+import { proxyUrl } from '../proxy.js';
+
+export class CallCourierAdapter implements CourierAdapter {
+  name = CourierName.CALLCOURIER;
+  knownStatuses = ['Booked', 'Shipment Booked', 'Pickup Pending', 'Picked', 'Dispatched', 'Arrived', 'In Transit', 'Out For Delivery', 'Not Delivered', 'Delivered', 'Cancelled', 'Return In Process', 'Returned to Shipper'];
+  private readonly BASE_URL = 'https://cod.callcourier.com.pk/api/CallCourier';
+
+  /**
+   * CallCourier identifies the shipper by Login ID (e.g. "test-0001") passed as a query param.
+   * Tracking is public, but listing bookings requires the Login ID.
+   */
+  private async request(endpoint: string, params: Record<string, string>): Promise<any> {
+    const queryParams = new URLSearchParams(params).toString();
+    const url = `${this.BASE_URL}/${endpoint}?${queryParams}`;
+
+    const res = await fetch(proxyUrl(url), {
+        method: 'GET',
+        headers: { 'Accept': 'application/json' }
+    });
+
+    const text = await res.text();
+
+    try {
+        return JSON.parse(text);
+    } catch {
+        throw new Error(`CallCourier API Error: ${res.status}. Body: ${text.substring(0, 100)}`);
+    }
+  }
+
+  private getLoginId(config: IntegrationConfig): string {
+      const loginId = (config.username || config.api_token || '').trim();
+      if (!loginId) throw new Error("CallCourier Login ID is missing. Please check Integrations settings.");
+      return loginId;
+  }
+
+  async track(trackingNumber: string, config: IntegrationConfig): Promise<TrackingUpdate> {
+    const cleanCN = trackingNumber.trim().replace(/\s/g, '');
+
+    try {
+        const history = await this.request('GetTackingHistory', { cn: cleanCN });
+
+        if (!Array.isArray(history) || history.length === 0) {
+            return {
+                tracking_number: cleanCN,
+                status: OrderStatus.BOOKED,
+                raw_status_text: "Booked / No Scan",
+                courier_timestamp: new Date().toISOString()
+            };
+        }
+
+        // History is chronological; last entry is the current state
+        const latest = history[history.length - 1];
+        const rawStatus = latest.ProcessDescForPortal || latest.OperationDesc || 'Unknown';
+
+        return {
+            tracking_number: cleanCN,
+            status: this.mapStatus(rawStatus),
+            raw_status_text: rawStatus,
+            courier_timestamp: latest.TransactionDate ? this.parseDate(latest.TransactionDate) : new Date().toISOString(),
+            checkpoints: history.map((h: any) => ({
+                status: h.ProcessDescForPortal || h.OperationDesc || 'Unknown',
+                timestamp: this.parseDate(h.TransactionDate),
+                location: h.BranchName || h.HomeBranch || undefined,
+                remarks: h.Reason || undefined
+            })).reverse()
+        };
+    } catch (e: any) {
+        console.error("CallCourier Track Error:", e);
+        throw e;
+    }
+  }
+
+  async createBooking(order: Order, config: IntegrationConfig): Promise<string> {
+    throw new Error("CallCourier Booking not supported in this version.");
+  }
+
+  async testConnection(config: IntegrationConfig): Promise<boolean> {
+    try {
+        const today = new Date().toISOString().split('T')[0];
+        const data = await this.request('GetBookingListByDate', {
+            loginId: this.getLoginId(config),
+            fromDate: today,
+            toDate: today
+        });
+        // An unknown Login ID comes back as a message object instead of a list
+        return Array.isArray(data);
+    } catch (e: any) {
+        console.error("CallCourier Test Failed:", e);
+        return false;
+    }
+  }
+
+  async fetchRecentOrders(config: IntegrationConfig): Promise<Order[]> {
+    const endDate = new Date();
+    const startDate = new Date();
+    startDate.setDate(startDate.getDate() - 60);
+    const formatDate = (d: Date) => d.toISOString().split('T')[0];
+
+    try {
+        const data = await this.request('GetBookingListByDate', {
+            loginId: this.getLoginId(config),
+            fromDate: formatDate(startDate),
+            toDate: formatDate(endDate)
+        });
+
+        const bookings: any[] = Array.isArray(data) ? data : [];
+
+        return bookings.map((b: any) => {
+            const rawStatus = b.LastStatus || b.ProcessDescForPortal || 'Booked';
+            const status = this.mapStatus(rawStatus);
+            const amount = parseFloat(String(b.CodAmount || '0').replace(/,/g, '')) || 0;
+            const rawName = b.ProductDetails || b.RefNo || 'General Item';
+            const fingerprint = this.createFingerprint(rawName);
+
+            return {
+                id: String(b.CNNO || Math.random().toString()),
+                shopify_order_number: b.RefNo || String(b.CNNO),
+                created_at: b.BookingDate ? this.parseDate(b.BookingDate) : new Date().toISOString(),
+                customer_city: b.DestCity || b.DestinationCity || 'Unknown',
+                courier: CourierName.CALLCOURIER,
+                tracking_number: String(b.CNNO),
+                status: status,
+                payment_status: PaymentStatus.UNPAID,
+
+                cod_amount: amount,
+                shipping_fee_paid_by_customer: 0,
+
+                courier_fee: COURIER_RATES[CourierName.CALLCOURIER].forward,
+                rto_penalty: status === OrderStatus.RETURNED ? COURIER_RATES[CourierName.CALLCOURIER].rto : 0,
+                packaging_cost: 45,
+                overhead_cost: 0,
+                tax_amount: 0,
+                courier_raw_status: rawStatus,
+                items: [{
+                    product_id: 'unknown',
+                    quantity: parseInt(b.NoOfPieces) || 1,
+                    sale_price: amount,
+                    product_name: rawName,
+                    sku: fingerprint,
+                    variant_fingerprint: fingerprint,
+                    cogs_at_time_of_order: 0
+                }]
+            };
+        });
+    } catch (error) {
+        console.error("CallCourier Fetch Error:", error);
+        throw error;
+    }
+  }
+
+  mapStatus(raw: string): OrderStatus {
+      const s = String(raw).toLowerCase();
+
+      if (s.includes('return') || s.includes('rto') || s.includes('refused')) {
+          if (s.includes('to shipper') || s.includes('return delivered')) return OrderStatus.RETURNED;
+          return OrderStatus.RTO_INITIATED;
+      }
+
+      if (s.includes('cancel')) return OrderStatus.CANCELLED;
+      if (s.includes('delivered') && !s.includes('undelivered') && !s.includes('not delivered')) return OrderStatus.DELIVERED;
+      if (s.includes('undelivered') || s.includes('not delivered') || s.includes('attempt')) return OrderStatus.DELIVERY_ATTEMPTED;
+
+      if (
+          s.includes('arrived') ||
+          s.includes('dispatch') ||
+          s.includes('transit') ||
+          s.includes('out for delivery') ||
+          s.includes('picked') ||
+          s.includes('received') ||
+          s.includes('hold')
+      ) {
+          return OrderStatus.IN_TRANSIT;
+      }
+
+      // "Booked", "Shipment Booked", "Pickup Pending"
+      return OrderStatus.BOOKED;
+  }
+
+  private createFingerprint(input: string): string {
+      if (!input) return 'unknown-item';
+      return input.toLowerCase().trim().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  }
+
+  private parseDate(str: string): string {
+      try {
+          if (!str) return new Date().toISOString();
+          // .NET JSON date: "/Date(1705312330000)/"
+          const netDate = str.match(/\/Date\((\d+)\)\//);
+          if (netDate) return new Date(parseInt(netDate[1])).toISOString();
+          return new Date(str).toISOString();
+      } catch {
+          return new Date().toISOString();
+      }
+  }
+}
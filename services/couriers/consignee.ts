@@ -0,0 +1,59 @@
+import { Order } from '../../types.js';
+
+export interface Consignee {
+  name: string;
+  phone: string; // Normalised to 03XXXXXXXXX
+  address: string;
+  city: string;
+  description: string;
+}
+
+// Couriers reject addresses that are just a city name or a house number
+const MIN_ADDRESS_LENGTH = 10;
+
+/**
+ * Normalises Pakistani mobile numbers ("+92 300-1234567", "923001234567", "3001234567") to 03XXXXXXXXX.
+ * Returns null when the number is not a valid mobile.
+ */
+export const normalizePakistaniPhone = (raw: string | null | undefined): string | null => {
+  let digits = String(raw || '').replace(/\D/g, '');
+
+  if (digits.startsWith('0092')) digits = digits.slice(4);
+  else if (digits.startsWith('92') && digits.length === 12) digits = digits.slice(2);
+
+  if (digits.length === 10 && digits.startsWith('3')) digits = `0${digits}`;
+
+  return /^03\d{9}$/.test(digits) ? digits : null;
+};
+
+export const describeOrderItems = (order: Order): string => {
+  if (order.item_description) return order.item_description;
+  return order.items.map(i => `${i.quantity}x ${i.product_name}`).join(', ');
+};
+
+/**
+ * Validates the order's consignee details before a booking is submitted.
+ * Throws a single error listing every problem so the user can fix the order in one go.
+ */
+export const getConsignee = (order: Order): Consignee => {
+  const problems: string[] = [];
+
+  const name = (order.customer_name || '').trim();
+  if (!name) problems.push('customer name is missing');
+
+  const phone = normalizePakistaniPhone(order.customer_phone);
+  if (!order.customer_phone) problems.push('phone number is missing');
+  else if (!phone) problems.push(`phone "${order.customer_phone}" is not a valid Pakistani mobile number`);
+
+  const address = (order.customer_address || '').replace(/\s+/g, ' ').trim();
+  if (address.length < MIN_ADDRESS_LENGTH) problems.push('delivery address is missing or incomplete');
+
+  const city = (order.customer_city || '').trim();
+  if (!city || city === 'Unknown') problems.push('city is missing');
+
+  if (problems.length > 0) {
+    throw new Error(`Cannot book ${order.shopify_order_number}: ${problems.join(', ')}.`);
+  }
+
+  return { name, phone: phone!, address, city, description: describeOrderItems(order) };
+};
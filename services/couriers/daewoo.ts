@@ -1,12 +1,28 @@
 
-import { CourierAdapter } from './adapter';
-import { IntegrationConfig, TrackingUpdate, OrderStatus, Order, CourierName } from '../../types';
+import { CourierAdapter } from './adapter.js';
+import { getConsignee } from './consignee.js';
+import { DEFAULT_PARCEL_WEIGHT_KG } from '../../constants.js';
+import { IntegrationConfig, TrackingUpdate, TrackingCheckpoint, OrderStatus, Order, CourierName, CourierTerminal } from '../../types.js';
+import { proxyUrl } from '../proxy.js';
+
+/**
+ * The destination terminal for a city, only when exactly one terminal is in that city. Several terminals (e.g. in
+ * Lahore) or none means the user has to pick, since a wrong terminal sends the parcel to the wrong hub.
+ */
+export const matchDaewooTerminal = (city: string, terminals: CourierTerminal[]): CourierTerminal | null => {
+  const target = (city || '').trim().toLowerCase();
+  if (!target) return null;
+  const matches = terminals.filter(t => t.city.trim().toLowerCase() === target);
+  return matches.length === 1 ? matches[0] : null;
+};
 
 export class DaewooAdapter implements CourierAdapter {
   name = CourierName.DAEWOO;
+  knownStatuses = ['Booked', 'Departure', 'On Route', 'Arrival', 'Undelivered', 'OK - Delivered', 'Return', 'Returned to Origin'];
   private readonly BASE_URL = 'https://codapi.daewoo.net.pk';
 
-  private async request(endpoint: string, config: IntegrationConfig, params: Record<string, string>): Promise<any> {
+  // Bookings are POSTed as JSON; everything else is a GET with auth in the query string
+  private async request(endpoint: string, config: IntegrationConfig, params: Record<string, string>, body?: any): Promise<any> {
     const { api_token: apiKey, username: apiUser, password: apiPassword } = config;
 
     if (!apiKey || !apiUser || !apiPassword) {
@@ -24,11 +40,13 @@ export class DaewooAdapter implements CourierAdapter {
     const url = `${this.BASE_URL}/${endpoint}?${queryParams}`;
 
     try {
-        const res = await fetch(`/api/proxy?url=${encodeURIComponent(url)}`, {
-            method: 'GET',
+        const res = await fetch(proxyUrl(url), {
+            method: body ? 'POST' : 'GET',
             headers: {
-                'Accept': 'application/json'
-            }
+                'Accept': 'application/json',
+                ...(body ? { 'Content-Type': 'application/json' } : {})
+            },
+            body: body ? JSON.stringify(body) : undefined
         });
 
         const text = await res.text();
@@ -60,6 +78,7 @@ export class DaewooAdapter implements CourierAdapter {
         let rawStatus = "Booked";
         let statusDate = new Date().toISOString();
         let found = false;
+        let checkpoints: TrackingCheckpoint[] = [];
 
         // Use TrackingDetails (History) to get latest status
         if (result.TrackingDetails && Array.isArray(result.TrackingDetails) && result.TrackingDetails.length > 0) {
@@ -72,6 +91,16 @@ export class DaewooAdapter implements CourierAdapter {
                 if (latest.Date) statusDate = this.parseDate(latest.Date);
                 found = true;
             }
+
+            checkpoints = result.TrackingDetails
+                .filter((d: any) => d.Status)
+                .map((d: any) => ({
+                    status: d.Status,
+                    timestamp: d.Date ? this.parseDate(d.Date) : statusDate,
+                    location: d.Location || d.Terminal || undefined,
+                    remarks: d.Remarks || undefined
+                }))
+                .reverse();
         } 
         // Fallback to CurrentTrackStatus
         else if (result.CurrentTrackStatus && Array.isArray(result.CurrentTrackStatus) && result.CurrentTrackStatus.length > 0) {
@@ -95,7 +124,8 @@ export class DaewooAdapter implements CourierAdapter {
             tracking_number: trackingNumber,
             status: this.mapStatus(rawStatus),
             raw_status_text: rawStatus,
-            courier_timestamp: statusDate
+            courier_timestamp: statusDate,
+            checkpoints
         };
 
     } catch (e: any) {
@@ -106,7 +136,63 @@ export class DaewooAdapter implements CourierAdapter {
   }
 
   async createBooking(order: Order, config: IntegrationConfig): Promise<string> {
-    throw new Error("Daewoo Booking not supported in this version.");
+    const originTerminalId = config.origin_terminal_id;
+    if (!originTerminalId) throw new Error("Daewoo Origin Terminal is not selected. Please check Integrations settings.");
+
+    const consignee = getConsignee(order);
+    let destinationTerminalId = order.destination_terminal_id;
+    if (!destinationTerminalId) {
+        const destination = matchDaewooTerminal(consignee.city, await this.getTerminals(config));
+        if (!destination) throw new Error(`Pick the Daewoo destination terminal for "${consignee.city}".`);
+        destinationTerminalId = destination.id;
+    }
+
+    const payload = {
+        source_terminal_id: originTerminalId,
+        destination_terminal_id: destinationTerminalId,
+        receiver_name: consignee.name,
+        receiver_mobile: consignee.phone,
+        receiver_address: consignee.address,
+        receiver_cnic: "",
+        cod_amount: Math.round(order.cod_amount),
+        qty: order.items.reduce((sum, i) => sum + i.quantity, 0) || 1,
+        weight: order.weight_kg || DEFAULT_PARCEL_WEIGHT_KG, // kg
+        reference_no: order.shopify_order_number,
+        remarks: consignee.description
+    };
+
+    const data = await this.request('api/booking/quickBook', config, {}, payload);
+    const result = data.Result || data;
+
+    // Failures come back as { Success: false, Response: "Destination terminal not allowed" }
+    if (!result.Success || result.Error) {
+        throw new Error(`Daewoo Booking Rejected: ${result.Response || 'Unknown error'}`);
+    }
+
+    const trackingNo = result.TrackingNo || result.trackingNo || result.Response?.TrackingNo;
+    if (!trackingNo) throw new Error("Daewoo did not return a tracking number.");
+    return String(trackingNo);
+  }
+
+  /**
+   * Lists FastEx terminals from `api/cargo/getLocations`, used for the origin and destination pickers.
+   */
+  async getTerminals(config: IntegrationConfig): Promise<CourierTerminal[]> {
+    const data = await this.request('api/cargo/getLocations', config, {});
+
+    if (data && data.Success === false) {
+        throw new Error(data.Response || "Invalid Credentials");
+    }
+
+    const locations: any[] = Array.isArray(data?.Result) ? data.Result
+        : Array.isArray(data?.Response) ? data.Response
+        : [];
+
+    return locations.map((l: any) => ({
+        id: String(l.location_id ?? l.LocationID ?? l.id),
+        name: String(l.location_name ?? l.LocationName ?? l.name ?? ''),
+        city: String(l.city_name ?? l.CityName ?? l.city ?? l.location_name ?? '')
+    }));
   }
 
   async testConnection(config: IntegrationConfig): Promise<boolean> {
@@ -137,9 +223,10 @@ export class DaewooAdapter implements CourierAdapter {
     return [];
   }
 
-  private mapStatus(raw: string): OrderStatus {
+  mapStatus(raw: string): OrderStatus {
       const s = raw.toUpperCase();
 
+      if (s.includes("UNDELIVERED") || s.includes("ATTEMPT")) return OrderStatus.DELIVERY_ATTEMPTED;
       if (s.includes("DELIVERED") || s.includes("OK - DELIVERED")) return OrderStatus.DELIVERED;
       
       if (s.includes("RETURN") || s.includes("RTO") || s.includes("REFUSED") || s.includes("CANCEL")) {
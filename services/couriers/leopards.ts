@@ -0,0 +1,269 @@
+import { CourierAdapter } from './adapter.js';
+import { getConsignee } from './consignee.js';
+import { COURIER_RATES, DEFAULT_PARCEL_WEIGHT_KG } from '../../constants.js';
+import { IntegrationConfig, TrackingUpdate, OrderStatus, Order, CourierName, PaymentStatus } from '../../types.js';
+import { proxyUrl } from '../proxy.js';
+
+export class LeopardsAdapter implements CourierAdapter {
+  name = CourierName.LEOPARDS;
+  knownStatuses = ['Pickup Request not Send', 'Pickup Request Sent', 'Consignment Booked', 'Assign to Courier', 'Arrived at Station', 'Dispatched', 'Pending', 'Delivered', 'Undelivered', 'Being Return', 'Returned to Shipper', 'Cancelled'];
+  private readonly BASE_URL = 'https://merchantapi.leopardscourier.com/api';
+
+  // Leopards accepts comma separated CNs; keep batches small enough for a GET query string
+  private readonly BULK_TRACK_LIMIT = 50;
+
+  /**
+   * Leopards expects api_key + api_password with every call (query string for GET, body for POST).
+   * Responses carry `status: 1` on success and an `error` message otherwise.
+   */
+  private async request(endpoint: string, config: IntegrationConfig, options: { method?: 'GET' | 'POST', params?: Record<string, string | number> } = {}): Promise<any> {
+    const { api_token: apiKey, password: apiPassword } = config;
+
+    if (!apiKey || !apiPassword) {
+        throw new Error("Leopards requires API Key and API Password.");
+    }
+
+    const method = options.method || 'GET';
+    const params = { api_key: apiKey, api_password: apiPassword, ...(options.params || {}) };
+
+    let url = `${this.BASE_URL}/${endpoint}/format/json/`;
+    if (method === 'GET') {
+        const query = Object.entries(params)
+            .map(([key, value]) => `${key}=${encodeURIComponent(String(value))}`)
+            .join('&');
+        url += `?${query}`;
+    }
+
+    const res = await fetch(proxyUrl(url), {
+        method,
+        headers: {
+            'Accept': 'application/json',
+            'Content-Type': 'application/json'
+        },
+        body: method === 'POST' ? JSON.stringify(params) : undefined
+    });
+
+    const text = await res.text();
+
+    let json: any;
+    try {
+        json = JSON.parse(text);
+    } catch {
+        throw new Error(`Leopards API Error: ${res.status}. Body: ${text.substring(0, 100)}`);
+    }
+
+    if (json && Number(json.status) !== 1) {
+        const message = typeof json.error === 'string' ? json.error : JSON.stringify(json.error || 'Request failed');
+        throw new Error(`Leopards: ${message}`);
+    }
+
+    return json;
+  }
+
+  async track(trackingNumber: string, config: IntegrationConfig): Promise<TrackingUpdate> {
+    const [update] = await this.trackBulk([trackingNumber], config);
+    if (!update) throw new Error("Tracking data not found");
+    return update;
+  }
+
+  async trackBulk(trackingNumbers: string[], config: IntegrationConfig): Promise<TrackingUpdate[]> {
+    const cleanCNs = trackingNumbers
+        .map(cn => cn.trim().replace(/\s/g, ''))
+        .filter(cn => cn.length > 0);
+
+    const updates: TrackingUpdate[] = [];
+
+    for (let i = 0; i < cleanCNs.length; i += this.BULK_TRACK_LIMIT) {
+        const batch = cleanCNs.slice(i, i + this.BULK_TRACK_LIMIT);
+
+        try {
+            const data = await this.request('trackBookedPacket', config, {
+                params: { track_numbers: batch.join(',') }
+            });
+
+            const packets: any[] = Array.isArray(data.packet_list) ? data.packet_list : [];
+            packets.forEach(packet => updates.push(this.toTrackingUpdate(packet)));
+        } catch (e: any) {
+            console.error("Leopards Bulk Track Error:", e);
+            throw e;
+        }
+    }
+
+    return updates;
+  }
+
+  async createBooking(order: Order, config: IntegrationConfig): Promise<string> {
+    const consignee = getConsignee(order);
+    const cityId = await this.resolveCityId(consignee.city, config);
+
+    const data = await this.request('bookPacket', config, {
+        method: 'POST',
+        params: {
+            booked_packet_weight: Math.round((order.weight_kg || DEFAULT_PARCEL_WEIGHT_KG) * 1000), // grams
+            booked_packet_no_piece: order.items.reduce((sum, i) => sum + i.quantity, 0) || 1,
+            booked_packet_collect_amount: Math.round(order.cod_amount),
+            booked_packet_order_id: order.shopify_order_number,
+            origin_city: 'self',
+            destination_city: cityId,
+            shipment_name_eng: 'self',
+            shipment_email: 'self',
+            shipment_phone: 'self',
+            shipment_address: 'self',
+            consignment_name_eng: consignee.name,
+            consignment_email: '',
+            consignment_phone: consignee.phone,
+            consignment_address: consignee.address,
+            special_instructions: consignee.description
+        }
+    });
+
+    if (!data.track_number) throw new Error("Leopards did not return a tracking number.");
+    return String(data.track_number);
+  }
+
+  async cancelBooking(trackingNumber: string, config: IntegrationConfig): Promise<void> {
+    // Leopards only cancels packets that have not been picked up yet
+    await this.request('cancelBookedPackets', config, {
+        method: 'POST',
+        params: { cn_numbers: trackingNumber }
+    });
+  }
+
+  async testConnection(config: IntegrationConfig): Promise<boolean> {
+    try {
+        const data = await this.request('getAllCities', config);
+        return Array.isArray(data.city_list);
+    } catch (e: any) {
+        console.error("Leopards Test Failed:", e);
+        return false;
+    }
+  }
+
+  async fetchRecentOrders(config: IntegrationConfig): Promise<Order[]> {
+    const endDate = new Date();
+    const startDate = new Date();
+    startDate.setDate(startDate.getDate() - 60);
+    const formatDate = (d: Date) => d.toISOString().split('T')[0];
+
+    try {
+        const json = await this.request('getBookedPacketLastStatus', config, {
+            params: { from_date: formatDate(startDate), to_date: formatDate(endDate) }
+        });
+
+        const packets: any[] = Array.isArray(json.packet_list) ? json.packet_list : [];
+
+        return packets.map((p: any) => {
+            const update = this.toTrackingUpdate(p);
+            const amount = parseFloat(String(p.booked_packet_collect_amount || '0').replace(/,/g, '')) || 0;
+            const rawName = p.special_instructions || p.booked_packet_order_id || 'General Item';
+            const fingerprint = this.createFingerprint(rawName);
+
+            return {
+                id: update.tracking_number || Math.random().toString(),
+                shopify_order_number: p.booked_packet_order_id || update.tracking_number,
+                created_at: p.booking_date ? this.parseDate(p.booking_date) : new Date().toISOString(),
+                customer_city: p.destination_city_name || 'Unknown',
+                courier: CourierName.LEOPARDS,
+                tracking_number: update.tracking_number,
+                status: update.status,
+                payment_status: PaymentStatus.UNPAID,
+
+                cod_amount: amount,
+                shipping_fee_paid_by_customer: 0,
+
+                courier_fee: COURIER_RATES[CourierName.LEOPARDS].forward,
+                rto_penalty: update.status === OrderStatus.RETURNED ? COURIER_RATES[CourierName.LEOPARDS].rto : 0,
+                packaging_cost: 45,
+                overhead_cost: 0,
+                tax_amount: 0,
+                courier_raw_status: update.raw_status_text,
+                items: [{
+                    product_id: 'unknown',
+                    quantity: parseInt(p.booked_packet_no_piece) || 1,
+                    sale_price: amount,
+                    product_name: rawName,
+                    sku: fingerprint,
+                    variant_fingerprint: fingerprint,
+                    cogs_at_time_of_order: 0
+                }]
+            };
+        });
+    } catch (error) {
+        console.error("Leopards Fetch Error:", error);
+        throw error;
+    }
+  }
+
+  private toTrackingUpdate(packet: any): TrackingUpdate {
+      const history: any[] = Array.isArray(packet['Tracking Detail']) ? packet['Tracking Detail'] : [];
+      // History is chronological; the packet status field is the authoritative latest state
+      const latest = history.length > 0 ? history[history.length - 1] : null;
+      const rawStatus = packet.booked_packet_status || latest?.Status || 'Pickup Request not Send';
+
+      return {
+          tracking_number: String(packet.track_number || ''),
+          status: this.mapStatus(rawStatus),
+          raw_status_text: rawStatus,
+          courier_timestamp: latest?.Activity_datetime ? this.parseDate(latest.Activity_datetime) : new Date().toISOString(),
+          checkpoints: history.map((h: any) => ({
+              status: h.Status || 'Unknown',
+              timestamp: this.parseDate(h.Activity_datetime),
+              location: h.Location || undefined,
+              remarks: h.Reason || h.Reciever_Name || undefined
+          })).reverse()
+      };
+  }
+
+  private async resolveCityId(cityName: string, config: IntegrationConfig): Promise<number> {
+      const data = await this.request('getAllCities', config);
+      const cities: any[] = Array.isArray(data.city_list) ? data.city_list : [];
+      const target = (cityName || '').trim().toLowerCase();
+      const match = cities.find(c => String(c.name).trim().toLowerCase() === target);
+      if (!match) throw new Error(`Leopards does not serve city "${cityName}".`);
+      return match.id;
+  }
+
+  mapStatus(raw: string): OrderStatus {
+      const s = String(raw).toLowerCase();
+
+      if (s.includes('returned to shipper')) return OrderStatus.RETURNED;
+      if (s.includes('return') || s.includes('rto') || s.includes('refused')) return OrderStatus.RTO_INITIATED;
+      if (s.includes('cancel')) return OrderStatus.CANCELLED;
+      if (s === 'delivered' || s.startsWith('delivered')) return OrderStatus.DELIVERED;
+      if (s.includes('undelivered') || s.includes('attempt')) return OrderStatus.DELIVERY_ATTEMPTED;
+
+      if (
+          s.includes('arrived at station') ||
+          s.includes('dispatched') ||
+          s.includes('in transit') ||
+          s.includes('assign to courier') ||
+          s.includes('pending') ||
+          s.includes('picked')
+      ) {
+          return OrderStatus.IN_TRANSIT;
+      }
+
+      // "Pickup Request not Send", "Pickup Request Sent", "Consignment Booked"
+      return OrderStatus.BOOKED;
+  }
+
+  private createFingerprint(input: string): string {
+      if (!input) return 'unknown-item';
+      return input.toLowerCase().trim().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  }
+
+  private parseDate(str: string): string {
+      try {
+          if (!str) return new Date().toISOString();
+          // Format: "2024-01-15 14:32:10" or "15/01/2024"
+          if (str.match(/^\d{2}\/\d{2}\/\d{4}/)) {
+              const [datePart, timePart] = str.split(' ');
+              const [d, m, y] = datePart.split('/');
+              return new Date(`${y}-${m}-${d}${timePart ? `T${timePart}` : ''}`).toISOString();
+          }
+          return new Date(str.replace(' ', 'T')).toISOString();
+      } catch {
+          return new Date().toISOString();
+      }
+  }
+}
@@ -0,0 +1,205 @@
+import { CourierAdapter } from './adapter.js';
+import { IntegrationConfig, TrackingUpdate, OrderStatus, Order, CourierName, PaymentStatus } from '../../types.js';
+import { COURIER_RATES } from '../../constants.js';
+import { proxyUrl } from '../proxy.js';
+
+export class MnpAdapter implements CourierAdapter {
+  name = CourierName.MNP;
+  knownStatuses = ['Booked', 'Picked', 'Departure', 'In Transit', 'Arrival', 'Out For Delivery', 'On Hold', 'Undelivered', 'Delivered', 'Cancelled', 'Return In Transit', 'Returned to Shipper'];
+  private readonly BASE_URL = 'https://mnpcourier.com/mycodapi/api';
+
+  /**
+   * M&P's COD API takes username/password in the query string.
+   * Most endpoints wrap their payload in a single-element array with an `isSuccess` flag.
+   */
+  private async request(endpoint: string, config: IntegrationConfig, params: Record<string, string>): Promise<any> {
+    const { username, password } = config;
+
+    if (!username || !password) {
+        throw new Error("M&P requires Username and Password.");
+    }
+
+    const queryParams = new URLSearchParams({
+        username,
+        password,
+        ...(config.merchant_id ? { AccountNo: config.merchant_id } : {}),
+        ...params
+    }).toString();
+
+    const url = `${this.BASE_URL}/${endpoint}?${queryParams}`;
+
+    const res = await fetch(proxyUrl(url), {
+        method: 'GET',
+        headers: { 'Accept': 'application/json' }
+    });
+
+    const text = await res.text();
+
+    let json: any;
+    try {
+        json = JSON.parse(text);
+    } catch {
+        throw new Error(`M&P API Error: ${res.status}. Body: ${text.substring(0, 100)}`);
+    }
+
+    const envelope = Array.isArray(json) ? json[0] : json;
+    if (envelope && (envelope.isSuccess === false || envelope.isSuccess === 'false')) {
+        throw new Error(`M&P: ${envelope.message || 'Request failed'}`);
+    }
+
+    return envelope;
+  }
+
+  async track(trackingNumber: string, config: IntegrationConfig): Promise<TrackingUpdate> {
+    const cleanCN = trackingNumber.trim().replace(/\s/g, '');
+
+    try {
+        const data = await this.request('Tracking/Consignment_Tracking', config, { consignment: cleanCN });
+        const detail = Array.isArray(data?.tracking_Details) ? data.tracking_Details[0] : null;
+
+        if (!detail) throw new Error("Tracking data not found");
+
+        const history: any[] = Array.isArray(detail.Details) ? detail.Details : [];
+        // Details are chronological; CNStatus is the summarised current state
+        const latest = history.length > 0 ? history[history.length - 1] : null;
+        const rawStatus = detail.CNStatus || latest?.Status || 'Booked';
+
+        return {
+            tracking_number: cleanCN,
+            status: this.mapStatus(rawStatus),
+            raw_status_text: rawStatus,
+            courier_timestamp: latest?.DateTime ? this.parseDate(latest.DateTime) : new Date().toISOString(),
+            checkpoints: history.map((h: any) => ({
+                status: h.Status || 'Unknown',
+                timestamp: this.parseDate(h.DateTime),
+                location: h.Location || h.Station || undefined,
+                remarks: h.Detail || h.Reason || undefined
+            })).reverse()
+        };
+    } catch (e: any) {
+        console.error("M&P Track Error:", e);
+        throw e;
+    }
+  }
+
+  async createBooking(order: Order, config: IntegrationConfig): Promise<string> {
+    throw new Error("M&P Booking not supported in this version.");
+  }
+
+  async testConnection(config: IntegrationConfig): Promise<boolean> {
+    try {
+        const data = await this.request('Branches/Get_Cities', config, {});
+        return !!data && Array.isArray(data.City);
+    } catch (e: any) {
+        console.error("M&P Test Failed:", e);
+        return false;
+    }
+  }
+
+  async fetchRecentOrders(config: IntegrationConfig): Promise<Order[]> {
+    const endDate = new Date();
+    const startDate = new Date();
+    startDate.setDate(startDate.getDate() - 60);
+    const formatDate = (d: Date) => d.toISOString().split('T')[0];
+
+    try {
+        const data = await this.request('Reports/Get_Consignments_Details', config, {
+            fromDate: formatDate(startDate),
+            toDate: formatDate(endDate)
+        });
+
+        const consignments: any[] = Array.isArray(data?.consignmentDetails) ? data.consignmentDetails : [];
+
+        return consignments.map((c: any) => {
+            const rawStatus = c.CNStatus || c.Status || 'Booked';
+            const status = this.mapStatus(rawStatus);
+            const amount = parseFloat(String(c.CODAmount || '0').replace(/,/g, '')) || 0;
+            const rawName = c.ProductDetail || c.CustomerReferenceNo || 'General Item';
+            const fingerprint = this.createFingerprint(rawName);
+
+            return {
+                id: String(c.Consignment || Math.random().toString()),
+                shopify_order_number: c.CustomerReferenceNo || String(c.Consignment),
+                created_at: c.BookingDate ? this.parseDate(c.BookingDate) : new Date().toISOString(),
+                customer_city: c.Destination || 'Unknown',
+                courier: CourierName.MNP,
+                tracking_number: String(c.Consignment),
+                status: status,
+                payment_status: PaymentStatus.UNPAID,
+
+                cod_amount: amount,
+                shipping_fee_paid_by_customer: 0,
+
+                courier_fee: COURIER_RATES[CourierName.MNP].forward,
+                rto_penalty: status === OrderStatus.RETURNED ? COURIER_RATES[CourierName.MNP].rto : 0,
+                packaging_cost: 45,
+                overhead_cost: 0,
+                tax_amount: 0,
+                courier_raw_status: rawStatus,
+                items: [{
+                    product_id: 'unknown',
+                    quantity: parseInt(c.Pieces) || 1,
+                    sale_price: amount,
+                    product_name: rawName,
+                    sku: fingerprint,
+                    variant_fingerprint: fingerprint,
+                    cogs_at_time_of_order: 0
+                }]
+            };
+        });
+    } catch (error) {
+        console.error("M&P Fetch Error:", error);
+        throw error;
+    }
+  }
+
+  mapStatus(raw: string): OrderStatus {
+      const s = String(raw).toLowerCase();
+
+      if (s.includes('return') || s.includes('rto') || s.includes('refused')) {
+          if (s.includes('delivered to shipper') || s.includes('returned to shipper') || s.includes('return delivered')) {
+              return OrderStatus.RETURNED;
+          }
+          return OrderStatus.RTO_INITIATED;
+      }
+
+      if (s.includes('cancel')) return OrderStatus.CANCELLED;
+      if (s.includes('delivered') && !s.includes('undelivered')) return OrderStatus.DELIVERED;
+      if (s.includes('undelivered') || s.includes('attempt')) return OrderStatus.DELIVERY_ATTEMPTED;
+
+      if (
+          s.includes('arrival') ||
+          s.includes('arrived') ||
+          s.includes('departure') ||
+          s.includes('transit') ||
+          s.includes('out for delivery') ||
+          s.includes('on route') ||
+          s.includes('picked') ||
+          s.includes('hold')
+      ) {
+          return OrderStatus.IN_TRANSIT;
+      }
+
+      return OrderStatus.BOOKED;
+  }
+
+  private createFingerprint(input: string): string {
+      if (!input) return 'unknown-item';
+      return input.toLowerCase().trim().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  }
+
+  private parseDate(str: string): string {
+      try {
+          if (!str) return new Date().toISOString();
+          // Format: "15/01/2024 14:32" -> DD/MM/YYYY HH:mm
+          if (str.match(/^\d{2}\/\d{2}\/\d{4}/)) {
+              const [datePart, timePart] = str.split(' ');
+              const [d, m, y] = datePart.split('/');
+              return new Date(`${y}-${m}-${d}${timePart ? `T${timePart}` : ''}`).toISOString();
+          }
+          return new Date(str).toISOString();
+      } catch {
+          return new Date().toISOString();
+      }
+  }
+}
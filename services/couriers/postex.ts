@@ -1,10 +1,14 @@
 
-import { CourierAdapter } from './adapter';
-import { IntegrationConfig, TrackingUpdate, OrderStatus, Order, CourierName, PaymentStatus } from '../../types';
-import { getOrders, getProducts } from '../mockData';
+import { CourierAdapter } from './adapter.js';
+import { getConsignee } from './consignee.js';
+import { IntegrationConfig, TrackingUpdate, OrderStatus, Order, CourierName, PaymentStatus, NdrAction, CourierSettlement } from '../../types.js';
+import { getOrders, getProducts } from '../mockData.js';
+import { COURIER_RATES } from '../../constants.js';
+import { isServer, proxyUrl } from '../proxy.js';
 
 export class PostExAdapter implements CourierAdapter {
   name = CourierName.POSTEX;
+  knownStatuses = ['Unbooked', 'Booked', 'PostEx WareHouse', 'Picked By PostEx', 'En-Route to PostEx Warehouse', 'Arrived at Station', 'In Transit', 'Out For Delivery', 'Attempted', 'Delivery Under Review', 'Delivered', 'Out For Return', 'Returned', 'Cancelled'];
   private readonly BASE_URL = 'https://api.postex.pk/services/integration/api';
 
   private async fetchWithFallback(endpoint: string, options: RequestInit, params?: Record<string, string | number>): Promise<any> {
@@ -19,18 +23,25 @@ export class PostExAdapter implements CourierAdapter {
     }
 
     // 1. Try Local API first
+    let localError: Error | null = null;
     try {
-        const proxyUrl = `/api/proxy?url=${encodeURIComponent(url)}`;
-        const res = await fetch(proxyUrl, options);
+        const res = await fetch(proxyUrl(url), options);
         if (res.ok) {
              const contentType = res.headers.get('content-type');
              if (contentType && contentType.includes('application/json')) {
                  return await res.json();
              }
+             localError = new Error("Invalid JSON response");
+        } else {
+             localError = new Error(`API Error ${res.status}: ${await res.text()}`);
         }
-    } catch (e) {}
+    } catch (e: any) {
+        localError = e;
+    }
+
+    // 2. Public Proxies (browser only)
+    if (isServer()) throw localError;
 
-    // 2. Public Proxies
     const proxies = [
         { base: 'https://corsproxy.io/?', encode: true },
         { base: 'https://thingproxy.freeboard.io/fetch/', encode: false },
@@ -75,7 +86,7 @@ export class PostExAdapter implements CourierAdapter {
     throw lastError || new Error("Network Error: Could not connect to PostEx. Please check your internet or try again later.");
   }
 
-  private mapStatus(rawStatus: string): OrderStatus {
+  mapStatus(rawStatus: string): OrderStatus {
     const status = rawStatus?.toLowerCase() || '';
     
     if (status === 'delivered') return OrderStatus.DELIVERED;
@@ -83,6 +94,7 @@ export class PostExAdapter implements CourierAdapter {
     if (status === 'cancelled') return OrderStatus.CANCELLED;
     if (status === 'unbooked') return OrderStatus.PENDING;
     if (status === 'booked') return OrderStatus.BOOKED;
+    if (status === 'attempted' || status === 'delivery under review') return OrderStatus.DELIVERY_ATTEMPTED;
 
     if (
         status.includes('return') || 
@@ -95,10 +107,8 @@ export class PostExAdapter implements CourierAdapter {
     if (
         status === 'postex warehouse' || 
         status === 'out for delivery' || 
-        status === 'delivery under review' || 
         status === 'picked by postex' || 
         status === 'en-route to postex warehouse' ||
-        status === 'attempted' ||
         status === 'arrived at station' ||
         status === 'in transit'
     ) {
@@ -108,9 +118,54 @@ export class PostExAdapter implements CourierAdapter {
     return OrderStatus.IN_TRANSIT;
   }
 
-  private mapPaymentStatus(status: OrderStatus, rawTransactionStatus: string): PaymentStatus {
-    if (status !== OrderStatus.DELIVERED) return PaymentStatus.UNPAID;
-    return PaymentStatus.UNPAID;
+  // Settlement for one CN: { settle: true, settlementDate, cprNumber_1 (payment receipt) }
+  private async fetchSettlement(trackingNumber: string, config: IntegrationConfig): Promise<CourierSettlement> {
+    const data = await this.fetchWithFallback(`/order/v1/payment-status/${trackingNumber}`, {
+      method: 'GET',
+      headers: { 'token': config.api_token, 'Accept': 'application/json' }
+    });
+
+    const dist = Array.isArray(data?.dist) ? data.dist[0] : data?.dist;
+    const isSettled = dist?.settle === true || String(dist?.settle).toLowerCase() === 'true';
+    if (!isSettled) return { tracking_number: trackingNumber, payment_status: PaymentStatus.UNPAID };
+
+    const rawDate = dist.settlementDate || dist.upfrontPaymentDate;
+    return {
+      tracking_number: trackingNumber,
+      payment_status: PaymentStatus.REMITTED,
+      settlement_date: rawDate && !isNaN(Date.parse(rawDate)) ? new Date(rawDate).toISOString() : undefined,
+      settlement_reference: dist.cprNumber_1 || dist.cprNumber_2 || undefined
+    };
+  }
+
+  /**
+   * The payment-status endpoint takes one CN, so this asks a few at a time.
+   * CNs whose lookup fails are left out and retried on the next sync.
+   */
+  async fetchSettlements(trackingNumbers: string[], config: IntegrationConfig): Promise<CourierSettlement[]> {
+    const settlements: CourierSettlement[] = [];
+    const BATCH_SIZE = 5;
+
+    for (let i = 0; i < trackingNumbers.length; i += BATCH_SIZE) {
+        const batch = trackingNumbers.slice(i, i + BATCH_SIZE);
+        await Promise.all(batch.map(async cn => {
+            try {
+                settlements.push(await this.fetchSettlement(cn, config));
+            } catch (e) {
+                console.warn(`PostEx payment status failed for ${cn}`, e);
+            }
+        }));
+    }
+
+    return settlements;
+  }
+
+  // Invoiced fees on the order (transactionFee forward, reversalFee on returns), excluding GST; undefined until PostEx bills it
+  private parseCharges(po: any): number | undefined {
+    const forward = parseFloat(String(po.transactionFee ?? '').replace(/,/g, ''));
+    const reversal = parseFloat(String(po.reversalFee ?? '').replace(/,/g, ''));
+    if (isNaN(forward) || forward <= 0) return undefined;
+    return forward + (isNaN(reversal) ? 0 : reversal);
   }
 
   private createFingerprint(input: string): string {
@@ -140,13 +195,20 @@ export class PostExAdapter implements CourierAdapter {
       if (!orderData) throw new Error("Tracking data not found");
 
       const rawStatus = orderData.transactionStatus || orderData.orderStatus || 'Unknown';
+      const history: any[] = Array.isArray(orderData.transactionStatusHistory) ? orderData.transactionStatusHistory : [];
       
       return {
         tracking_number: trackingNumber,
         status: this.mapStatus(rawStatus),
         raw_status_text: rawStatus,
         courier_timestamp: orderData.transactionDate || new Date().toISOString(),
-        balance_payable: orderData.invoicePayment || 0
+        balance_payable: orderData.invoicePayment || 0,
+        // History is chronological
+        checkpoints: history.map((h: any) => ({
+          status: h.transactionStatusMessage || 'Unknown',
+          timestamp: h.modifiedDatetime && !isNaN(Date.parse(h.modifiedDatetime)) ? new Date(h.modifiedDatetime).toISOString() : new Date().toISOString(),
+          remarks: h.transactionStatusMessageCode || undefined
+        })).reverse()
       };
     } catch (error) {
       console.error('PostEx Tracking Failed:', error);
@@ -160,15 +222,18 @@ export class PostExAdapter implements CourierAdapter {
         return `DEMO-PX-${Math.floor(Math.random() * 100000)}`;
     }
 
+    const consignee = getConsignee(order);
+
     const payload = {
       orderRefNumber: order.shopify_order_number,
       invoicePayment: String(order.cod_amount),
-      customerName: "Customer",
-      customerPhone: "03001234567",
-      deliveryAddress: order.customer_city,
-      cityName: order.customer_city,
+      orderDetail: consignee.description,
+      customerName: consignee.name,
+      customerPhone: consignee.phone,
+      deliveryAddress: consignee.address,
+      cityName: consignee.city,
       invoiceDivision: 0, 
-      items: order.items.length,
+      items: order.items.reduce((sum, i) => sum + i.quantity, 0) || 1,
       orderType: "Normal", 
       transactionNotes: "Handle with care" 
     };
@@ -189,6 +254,45 @@ export class PostExAdapter implements CourierAdapter {
     }
   }
 
+  async cancelBooking(trackingNumber: string, config: IntegrationConfig): Promise<void> {
+    if (config.api_token.startsWith('demo_')) {
+        await new Promise(r => setTimeout(r, 800));
+        return;
+    }
+
+    const data = await this.fetchWithFallback(`/order/v1/cancel-order`, {
+      method: 'PUT',
+      headers: { 'token': config.api_token, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ trackingNumber })
+    });
+
+    if (data.statusCode !== "200") {
+        throw new Error(`PostEx Cancellation Rejected: ${data.statusMessage || 'Unknown error'}`);
+    }
+  }
+
+  async submitNdrAction(trackingNumber: string, action: NdrAction, config: IntegrationConfig, remarks?: string): Promise<void> {
+    if (config.api_token.startsWith('demo_')) {
+        await new Promise(r => setTimeout(r, 800));
+        return;
+    }
+
+    // Shipper advice on "Attempted" / "Delivery Under Review" parcels
+    const data = await this.fetchWithFallback(`/order/v2/save-shipper-advice`, {
+      method: 'PUT',
+      headers: { 'token': config.api_token, 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        trackingNumber,
+        shipperAdviceStatus: action === 'REATTEMPT' ? 'REATTEMPT' : 'RETURN',
+        shipperRemarks: remarks || ''
+      })
+    });
+
+    if (data.statusCode !== "200") {
+        throw new Error(`PostEx Shipper Advice Rejected: ${data.statusMessage || 'Unknown error'}`);
+    }
+  }
+
   async testConnection(config: IntegrationConfig): Promise<boolean> {
     if (config.api_token.startsWith('demo_')) {
         await new Promise(r => setTimeout(r, 1500));
@@ -232,7 +336,7 @@ export class PostExAdapter implements CourierAdapter {
 
         const postExOrders = (json && json.dist) ? json.dist : [];
 
-        return postExOrders.map((po: any) => {
+        const orders: Order[] = postExOrders.map((po: any) => {
             const status = this.mapStatus(po.transactionStatus);
             const amountStr = String(po.invoicePayment || '0').replace(/,/g, '');
             const amount = parseFloat(amountStr) || 0;
@@ -277,13 +381,14 @@ export class PostExAdapter implements CourierAdapter {
                 courier: CourierName.POSTEX,
                 tracking_number: po.trackingNumber,
                 status: status,
-                payment_status: this.mapPaymentStatus(status, po.transactionStatus),
+                payment_status: PaymentStatus.UNPAID, // The list has no payment info; fetchSettlements fills it in during sync
                 
                 cod_amount: amount,
                 shipping_fee_paid_by_customer: 0,
                 
-                courier_fee: 180, 
-                rto_penalty: status === OrderStatus.RETURNED ? 90 : 0,
+                courier_fee: COURIER_RATES[CourierName.POSTEX].forward, // Estimate; App re-applies the user's rate card
+                rto_penalty: status === OrderStatus.RETURNED ? COURIER_RATES[CourierName.POSTEX].rto : 0,
+                actual_courier_charges: this.parseCharges(po),
                 packaging_cost: 45,
                 overhead_cost: 0,
                 tax_amount: 0,
@@ -291,6 +396,8 @@ export class PostExAdapter implements CourierAdapter {
             };
         });
 
+        return orders;
+
     } catch (error) {
         console.error("Realtime Fetch Error:", error);
         throw error;
@@ -0,0 +1,146 @@
+import { CourierAdapter } from './adapter.js';
+import { PostExAdapter } from './postex.js';
+import { TcsAdapter } from './tcs.js';
+import { DaewooAdapter } from './daewoo.js';
+import { TraxAdapter } from './trax.js';
+import { LeopardsAdapter } from './leopards.js';
+import { MnpAdapter } from './mnp.js';
+import { CallCourierAdapter } from './callcourier.js';
+import { CourierName, IntegrationConfig } from '../../types.js';
+
+export interface CourierCapabilities {
+  canBook: boolean;       // createBooking is implemented
+  canList: boolean;       // fetchRecentOrders returns the courier's own order list
+  canBulkTrack: boolean;  // trackBulk refreshes many CNs in one request
+  canCancel: boolean;     // bookings can be voided through the API
+  canNdr: boolean;        // submitNdrAction sends reattempt/return advice
+  canSettle: boolean;     // fetchSettlements reports COD payouts the order list leaves out
+  canListTerminals: boolean; // getTerminals lists pickup/drop-off terminals (terminal-to-terminal booking)
+}
+
+interface CourierRegistryEntry {
+  create: () => CourierAdapter;
+  capabilities: CourierCapabilities;
+  /** Lower-case fragments used to recognise the courier in Shopify tags / tracking company names */
+  aliases: string[];
+}
+
+export type CourierConfigMap = Partial<Record<CourierName, IntegrationConfig>>;
+
+export interface ResolvedCourier {
+  name: CourierName;
+  adapter: CourierAdapter;
+  config: IntegrationConfig;
+  capabilities: CourierCapabilities;
+}
+
+const COURIER_REGISTRY: Record<CourierName, CourierRegistryEntry> = {
+  [CourierName.POSTEX]: {
+    create: () => new PostExAdapter(),
+    capabilities: { canBook: true, canList: true, canBulkTrack: false, canCancel: true, canNdr: true, canSettle: true, canListTerminals: false },
+    aliases: ['postex']
+  },
+  [CourierName.TCS]: {
+    create: () => new TcsAdapter(),
+    capabilities: { canBook: true, canList: false, canBulkTrack: false, canCancel: false, canNdr: false, canSettle: false, canListTerminals: false },
+    aliases: ['tcs']
+  },
+  [CourierName.DAEWOO]: {
+    create: () => new DaewooAdapter(),
+    capabilities: { canBook: true, canList: false, canBulkTrack: false, canCancel: false, canNdr: false, canSettle: false, canListTerminals: true },
+    aliases: ['daewoo', 'fastex']
+  },
+  [CourierName.TRAX]: {
+    create: () => new TraxAdapter(),
+    capabilities: { canBook: true, canList: true, canBulkTrack: false, canCancel: true, canNdr: false, canSettle: false, canListTerminals: false },
+    aliases: ['trax', 'sonic']
+  },
+  [CourierName.LEOPARDS]: {
+    create: () => new LeopardsAdapter(),
+    capabilities: { canBook: true, canList: true, canBulkTrack: true, canCancel: true, canNdr: false, canSettle: false, canListTerminals: false },
+    aliases: ['leopard']
+  },
+  [CourierName.MNP]: {
+    create: () => new MnpAdapter(),
+    capabilities: { canBook: false, canList: true, canBulkTrack: false, canCancel: false, canNdr: false, canSettle: false, canListTerminals: false },
+    aliases: ['mnp', 'm&p', 'muller']
+  },
+  [CourierName.CALLCOURIER]: {
+    create: () => new CallCourierAdapter(),
+    capabilities: { canBook: false, canList: true, canBulkTrack: false, canCancel: false, canNdr: false, canSettle: false, canListTerminals: false },
+    aliases: ['callcourier', 'call courier']
+  },
+};
+
+// Adapters are stateless, so one instance per courier is enough
+const adapterCache: Partial<Record<CourierName, CourierAdapter>> = {};
+
+export const isKnownCourier = (name: string): name is CourierName => {
+  return Object.prototype.hasOwnProperty.call(COURIER_REGISTRY, name);
+};
+
+export const getCourierAdapter = (name: CourierName): CourierAdapter => {
+  if (!adapterCache[name]) {
+    adapterCache[name] = COURIER_REGISTRY[name].create();
+  }
+  return adapterCache[name]!;
+};
+
+export const getCourierCapabilities = (name: CourierName): CourierCapabilities => {
+  return COURIER_REGISTRY[name].capabilities;
+};
+
+/**
+ * Builds a lookup of active configs from `integration_configs` rows (keyed by provider_id).
+ */
+export const buildCourierConfigMap = (rows: IntegrationConfig[]): CourierConfigMap => {
+  const map: CourierConfigMap = {};
+  rows.forEach(row => {
+    if (row.is_active && isKnownCourier(row.provider_id)) {
+      map[row.provider_id] = row;
+    }
+  });
+  return map;
+};
+
+/**
+ * Resolves the adapter, config and capabilities for a courier, or null if it is not configured.
+ */
+export const resolveCourier = (name: CourierName, configs: CourierConfigMap): ResolvedCourier | null => {
+  const config = configs[name];
+  if (!config || !isKnownCourier(name)) return null;
+  return {
+    name,
+    adapter: getCourierAdapter(name),
+    config,
+    capabilities: getCourierCapabilities(name)
+  };
+};
+
+/**
+ * Lists every configured courier, optionally narrowed to those with a given capability.
+ */
+export const getConfiguredCouriers = (configs: CourierConfigMap, capability?: keyof CourierCapabilities): ResolvedCourier[] => {
+  return (Object.keys(configs) as CourierName[])
+    .map(name => resolveCourier(name, configs))
+    .filter((c): c is ResolvedCourier => c !== null && (!capability || c.capabilities[capability]));
+};
+
+/**
+ * Couriers without a list API; their orders are discovered through Shopify tags/fulfillments.
+ */
+export const getBackfillCouriers = (): CourierName[] => {
+  return (Object.keys(COURIER_REGISTRY) as CourierName[]).filter(name => !COURIER_REGISTRY[name].capabilities.canList);
+};
+
+/**
+ * Detects a courier from free text such as Shopify tags or a fulfillment's tracking_company.
+ */
+export const detectCourier = (text: string | null | undefined): CourierName | null => {
+  const haystack = String(text || '').toLowerCase();
+  if (!haystack) return null;
+  const match = (Object.keys(COURIER_REGISTRY) as CourierName[]).find(name =>
+    COURIER_REGISTRY[name].aliases.some(alias => haystack.includes(alias))
+  );
+  return match || null;
+};
@@ -1,9 +1,13 @@
 
-import { CourierAdapter } from './adapter';
-import { IntegrationConfig, TrackingUpdate, OrderStatus, Order, CourierName, PaymentStatus } from '../../types';
+import { CourierAdapter } from './adapter.js';
+import { getConsignee } from './consignee.js';
+import { DEFAULT_PARCEL_WEIGHT_KG } from '../../constants.js';
+import { IntegrationConfig, TrackingUpdate, TrackingCheckpoint, OrderStatus, Order, CourierName, PaymentStatus } from '../../types.js';
+import { proxyUrl } from '../proxy.js';
 
 export class TcsAdapter implements CourierAdapter {
   name = CourierName.TCS;
+  knownStatuses = ['Booked', 'Manifested', 'Picked Up', 'Arrived at TCS Facility', 'Departed From TCS Facility', 'In Transit', 'Out For Delivery', 'Delivery Attempted - Consignee Not Available', 'Undelivered', 'Delivered', 'Return In Process', 'Returned to Shipper'];
   
   // Base URLs
   private readonly ECOM_URL = 'https://ociconnect.tcscourier.com/ecom/api';
@@ -29,7 +33,7 @@ export class TcsAdapter implements CourierAdapter {
       const targetUrl = `${fullUrl}?${query}`;
       
       // 3. Send via Proxy
-      const res = await fetch(`/api/proxy?url=${encodeURIComponent(targetUrl)}`, {
+      const res = await fetch(proxyUrl(targetUrl), {
           method: 'GET',
           headers: {
               'Accept': 'application/json',
@@ -52,10 +56,46 @@ export class TcsAdapter implements CourierAdapter {
       }
   }
 
+  /**
+   * POST counterpart of `request` for the ecom booking endpoints.
+   * TCS answers validation failures with HTTP 200 and a non-success `code`, so the body is checked too.
+   */
+  private async post(fullUrl: string, config: IntegrationConfig, body: any): Promise<any> {
+      let token = config.api_token;
+      if (!token) throw new Error("TCS Access Token is missing. Please check Integrations settings.");
+      token = token.replace(/^Bearer\s+/i, '').trim();
+
+      const res = await fetch(proxyUrl(fullUrl), {
+          method: 'POST',
+          headers: {
+              'Accept': 'application/json',
+              'Content-Type': 'application/json',
+              'Authorization': `Bearer ${token}`
+          },
+          body: JSON.stringify(body)
+      });
+
+      const text = await res.text();
+
+      let json: any;
+      try {
+          json = JSON.parse(text);
+      } catch {
+          throw new Error(`TCS API Error: Received non-JSON response. Status: ${res.status}. Body: ${text.substring(0, 100)}...`);
+      }
+
+      if (json.message === 'Invalid access token' || res.status === 401) {
+          throw new Error("TCS Authentication Failed: Invalid Token");
+      }
+
+      return json;
+  }
+
   async track(trackingNumber: string, config: IntegrationConfig): Promise<TrackingUpdate> {
       let rawStatus = "Unknown";
       let statusDate = new Date().toISOString();
       let foundData = false;
+      let checkpoints: TrackingCheckpoint[] = [];
       const cleanCN = trackingNumber.trim().replace(/\s/g, '');
 
       // 1. Try Live Tracking (GetDynamicTrackDetail) - Page 32 of Guide
@@ -78,6 +118,14 @@ export class TcsAdapter implements CourierAdapter {
                   rawStatus = latest.status || "Unknown";
                   statusDate = latest.datetime || statusDate;
                   foundData = true;
+
+                  // Checkpoints are newest first
+                  checkpoints = data.checkpoints.map((c: any) => ({
+                      status: c.status || 'Unknown',
+                      timestamp: this.parseDate(c.datetime),
+                      location: c.location || c.station || undefined,
+                      remarks: c.recievedby || c.receivedBy || undefined
+                  }));
               } else if (data.shipmentsummary && typeof data.shipmentsummary === 'string' && !data.shipmentsummary.includes('No Data Found')) {
                   // Fallback to summary string
                   rawStatus = data.shipmentsummary;
@@ -126,12 +174,49 @@ export class TcsAdapter implements CourierAdapter {
           tracking_number: cleanCN,
           status: status,
           raw_status_text: displayStatus, 
-          courier_timestamp: statusDate
+          courier_timestamp: statusDate,
+          checkpoints
       };
   }
 
   async createBooking(order: Order, config: IntegrationConfig): Promise<string> {
-      throw new Error("Booking not supported in this version.");
+      if (!config.merchant_id) throw new Error("TCS Account Number is missing. Please check Integrations settings.");
+      if (!config.origin_city) throw new Error("TCS Origin City is missing. Please check Integrations settings.");
+
+      const consignee = getConsignee(order);
+
+      const payload = {
+          costCenterCode: config.merchant_id, // Account number doubles as the default cost center
+          originCityName: config.origin_city,
+          destinationCityName: consignee.city,
+          consigneeName: consignee.name,
+          consigneeAddress: consignee.address,
+          consigneeMobNo: consignee.phone,
+          consigneeEmail: "",
+          weight: order.weight_kg || DEFAULT_PARCEL_WEIGHT_KG, // kg
+          pieces: order.items.reduce((sum, i) => sum + i.quantity, 0) || 1,
+          codAmount: Math.round(order.cod_amount),
+          customerReferenceNo: order.shopify_order_number,
+          services: "O", // Overnight
+          productDetails: consignee.description,
+          fragile: "No",
+          remarks: "",
+          insuranceValue: 0
+      };
+
+      const data = await this.post(`${this.ECOM_URL}/booking/create`, config, payload);
+
+      // Success: { returnStatus: { status: "SUCCESS" }, bookingReply: { result: "Your generated CN is: 779..." } }
+      const status = String(data?.returnStatus?.status || '').toUpperCase();
+      if (status !== 'SUCCESS') {
+          const reason = data?.returnStatus?.message || data?.message || 'Unknown error';
+          throw new Error(`TCS Booking Rejected: ${reason}`);
+      }
+
+      const result = String(data?.bookingReply?.result || data?.consignmentNo || '');
+      const cn = result.match(/\d{9,}/);
+      if (!cn) throw new Error(`TCS did not return a CN. Response: ${result.substring(0, 100)}`);
+      return cn[0];
   }
 
   async testConnection(config: IntegrationConfig): Promise<boolean> {
@@ -162,9 +247,12 @@ export class TcsAdapter implements CourierAdapter {
       return []; 
   }
 
-  private mapStatus(raw: string): OrderStatus {
+  mapStatus(raw: string): OrderStatus {
       const s = String(raw).toLowerCase();
       
+      // Failed attempt ("Undelivered", "Delivery Attempted - Consignee Not Available")
+      if (s.includes('undelivered') || s.includes('attempt')) return OrderStatus.DELIVERY_ATTEMPTED;
+
       // Success Check
       if (s === 'ok' || s.includes('delivered') || s === 'shipment delivered') {
           // Careful: "Returned to Shipper" sometimes contains "Delivered" text
@@ -0,0 +1,264 @@
+import { CourierAdapter } from './adapter.js';
+import { getConsignee } from './consignee.js';
+import { COURIER_RATES, DEFAULT_PARCEL_WEIGHT_KG } from '../../constants.js';
+import { IntegrationConfig, TrackingUpdate, TrackingCheckpoint, OrderStatus, Order, CourierName, PaymentStatus } from '../../types.js';
+import { proxyUrl } from '../proxy.js';
+
+export class TraxAdapter implements CourierAdapter {
+  name = CourierName.TRAX;
+  knownStatuses = ['Shipment - Booked', 'Shipment - Rider Assigned', 'Shipment - Picked', 'Shipment - In Transit', 'Shipment - Arrived at Destination', 'Shipment - Out for Delivery', 'Shipment - On Hold', 'Shipment - Delivered', 'Shipment - Delivery Unsuccessful', 'Shipment - Re-Attempt', 'Shipment - Cancelled', 'Return - Confirm', 'Return - In Transit', 'Return - Delivered to Shipper'];
+  private readonly BASE_URL = 'https://sonic.pk/api';
+
+  /**
+   * Trax (Sonic) authenticates with the raw API key in the Authorization header.
+   * All responses carry a numeric `status` where 0 means success.
+   */
+  private async request(endpoint: string, config: IntegrationConfig, options: { method?: 'GET' | 'POST', params?: Record<string, string>, body?: any } = {}): Promise<any> {
+    const apiKey = (config.api_token || '').trim();
+    if (!apiKey) throw new Error("Trax API Key is missing. Please check Integrations settings.");
+
+    let url = `${this.BASE_URL}${endpoint}`;
+    if (options.params) {
+        url += `?${new URLSearchParams(options.params).toString()}`;
+    }
+
+    const method = options.method || 'GET';
+    const res = await fetch(proxyUrl(url), {
+        method,
+        headers: {
+            'Accept': 'application/json',
+            'Content-Type': 'application/json',
+            'Authorization': apiKey
+        },
+        body: method === 'POST' ? JSON.stringify(options.body || {}) : undefined
+    });
+
+    const text = await res.text();
+
+    let json: any;
+    try {
+        json = JSON.parse(text);
+    } catch {
+        throw new Error(`Trax API Error: ${res.status}. Body: ${text.substring(0, 100)}`);
+    }
+
+    if (res.status === 401 || res.status === 403) {
+        throw new Error("Trax Authentication Failed: Invalid API Key");
+    }
+
+    if (json && json.status !== undefined && Number(json.status) !== 0) {
+        // Validation errors come back as { status: 1, message, errors: { field: [..] } }
+        const details = json.errors ? Object.values(json.errors).flat().join(', ') : '';
+        throw new Error(`Trax: ${json.message || 'Request failed'}${details ? ` (${details})` : ''}`);
+    }
+
+    return json;
+  }
+
+  async track(trackingNumber: string, config: IntegrationConfig): Promise<TrackingUpdate> {
+    const cleanCN = trackingNumber.trim().replace(/\s/g, '');
+
+    try {
+        const data = await this.request('/shipment/track', config, {
+            params: { tracking_number: cleanCN, type: '0' }
+        });
+
+        const details = data.details || {};
+        const history: any[] = Array.isArray(details.tracking_history) ? details.tracking_history : [];
+
+        if (history.length === 0) {
+            return {
+                tracking_number: cleanCN,
+                status: OrderStatus.BOOKED,
+                raw_status_text: "Booked / No Scan",
+                courier_timestamp: new Date().toISOString()
+            };
+        }
+
+        // Trax returns history newest first
+        const latest = history[0];
+        const rawStatus = latest.status || "Unknown";
+
+        const checkpoints: TrackingCheckpoint[] = history.map((h: any) => ({
+            status: h.status || 'Unknown',
+            timestamp: this.parseDate(h.date_time),
+            location: h.location || h.city || undefined,
+            remarks: h.status_reason || h.reason || undefined
+        }));
+
+        return {
+            tracking_number: cleanCN,
+            status: this.mapStatus(rawStatus),
+            raw_status_text: rawStatus,
+            courier_timestamp: this.parseDate(latest.date_time),
+            checkpoints
+        };
+    } catch (e: any) {
+        console.error("Trax Track Error:", e);
+        throw e;
+    }
+  }
+
+  async createBooking(order: Order, config: IntegrationConfig): Promise<string> {
+    const consignee = getConsignee(order);
+    const cityId = await this.resolveCityId(consignee.city, config);
+    const pickupAddressId = config.merchant_id || await this.getDefaultPickupAddressId(config);
+
+    const payload = {
+        service_type_id: 1, // Regular
+        pickup_address_id: pickupAddressId,
+        information_display: 0,
+        consignee_city_id: cityId,
+        consignee_name: consignee.name,
+        consignee_address: consignee.address,
+        consignee_phone_number_1: consignee.phone,
+        consignee_email_address: "",
+        order_id: order.shopify_order_number,
+        item_product_type_id: 1,
+        item_description: consignee.description,
+        item_quantity: order.items.reduce((sum, i) => sum + i.quantity, 0) || 1,
+        item_insurance: 0,
+        pickup_date: new Date().toISOString().split('T')[0],
+        estimated_weight: order.weight_kg || DEFAULT_PARCEL_WEIGHT_KG,
+        shipping_mode_id: 1, // Rush
+        amount: Math.round(order.cod_amount),
+        payment_mode_id: 1, // COD
+        charges_mode_id: 4 // Invoice
+    };
+
+    const data = await this.request('/shipment/book', config, { method: 'POST', body: payload });
+    if (!data.tracking_number) throw new Error("Trax did not return a tracking number.");
+    return String(data.tracking_number);
+  }
+
+  async cancelBooking(trackingNumber: string, config: IntegrationConfig): Promise<void> {
+    // Only accepted while the shipment is still "Booked"; non-zero status is thrown by request()
+    await this.request('/shipment/cancel', config, { method: 'POST', body: { tracking_number: trackingNumber } });
+  }
+
+  async testConnection(config: IntegrationConfig): Promise<boolean> {
+    try {
+        // Pickup addresses is a cheap read-only endpoint that requires a valid key
+        const data = await this.request('/pickup_addresses', config);
+        return Array.isArray(data.pickup_addresses);
+    } catch (e: any) {
+        console.error("Trax Test Failed:", e);
+        return false;
+    }
+  }
+
+  async fetchRecentOrders(config: IntegrationConfig): Promise<Order[]> {
+    const endDate = new Date();
+    const startDate = new Date();
+    startDate.setDate(startDate.getDate() - 60);
+    const formatDate = (d: Date) => d.toISOString().split('T')[0];
+
+    try {
+        const json = await this.request('/shipments/status', config, {
+            params: { from_date: formatDate(startDate), to_date: formatDate(endDate) }
+        });
+
+        const shipments: any[] = Array.isArray(json.shipments) ? json.shipments : [];
+
+        return shipments.map((s: any) => {
+            const rawStatus = s.current_status || s.status_name || 'Unknown';
+            const status = this.mapStatus(rawStatus);
+            const amount = parseFloat(String(s.amount || s.cod_amount || '0').replace(/,/g, '')) || 0;
+            const rawName = s.item_description || s.order_id || 'General Item';
+            const fingerprint = this.createFingerprint(rawName);
+
+            return {
+                id: String(s.tracking_number || Math.random().toString()),
+                shopify_order_number: s.order_id || String(s.tracking_number),
+                created_at: s.booking_date ? this.parseDate(s.booking_date) : new Date().toISOString(),
+                customer_city: s.consignee_city || s.destination_city || 'Unknown',
+                courier: CourierName.TRAX,
+                tracking_number: String(s.tracking_number),
+                status: status,
+                payment_status: PaymentStatus.UNPAID,
+
+                cod_amount: amount,
+                shipping_fee_paid_by_customer: 0,
+
+                courier_fee: COURIER_RATES[CourierName.TRAX].forward,
+                rto_penalty: status === OrderStatus.RETURNED ? COURIER_RATES[CourierName.TRAX].rto : 0,
+                packaging_cost: 45,
+                overhead_cost: 0,
+                tax_amount: 0,
+                courier_raw_status: rawStatus,
+                items: [{
+                    product_id: 'unknown',
+                    quantity: parseInt(s.item_quantity) || 1,
+                    sale_price: amount,
+                    product_name: rawName,
+                    sku: fingerprint,
+                    variant_fingerprint: fingerprint,
+                    cogs_at_time_of_order: 0
+                }]
+            };
+        });
+    } catch (error) {
+        console.error("Trax Fetch Error:", error);
+        throw error;
+    }
+  }
+
+  private async resolveCityId(cityName: string, config: IntegrationConfig): Promise<number> {
+      const data = await this.request('/cities', config);
+      const cities: any[] = Array.isArray(data.cities) ? data.cities : [];
+      const target = (cityName || '').trim().toLowerCase();
+      const match = cities.find(c => String(c.name).trim().toLowerCase() === target);
+      if (!match) throw new Error(`Trax does not serve city "${cityName}".`);
+      return match.id;
+  }
+
+  private async getDefaultPickupAddressId(config: IntegrationConfig): Promise<number> {
+      const data = await this.request('/pickup_addresses', config);
+      const addresses: any[] = Array.isArray(data.pickup_addresses) ? data.pickup_addresses : [];
+      if (addresses.length === 0) throw new Error("No pickup address found on your Trax account.");
+      return addresses[0].id;
+  }
+
+  mapStatus(raw: string): OrderStatus {
+      const s = String(raw).toLowerCase();
+
+      // Return leg: "Return - Confirm", "Return - In Transit", "Return - Delivered to Shipper"
+      if (s.startsWith('return') || s.includes('rto')) {
+          if (s.includes('delivered to shipper') || s.includes('returned to shipper')) return OrderStatus.RETURNED;
+          return OrderStatus.RTO_INITIATED;
+      }
+
+      if (s.includes('cancel')) return OrderStatus.CANCELLED;
+      if (s.includes('delivered') && !s.includes('unsuccessful')) return OrderStatus.DELIVERED;
+      if (s.includes('unsuccessful') || s.includes('re-attempt')) return OrderStatus.DELIVERY_ATTEMPTED;
+
+      if (
+          s.includes('picked') ||
+          s.includes('transit') ||
+          s.includes('arrived') ||
+          s.includes('departed') ||
+          s.includes('out for delivery') ||
+          s.includes('on hold')
+      ) {
+          return OrderStatus.IN_TRANSIT;
+      }
+
+      // "Shipment - Booked", "Shipment - Rider Assigned" etc.
+      return OrderStatus.BOOKED;
+  }
+
+  private createFingerprint(input: string): string {
+      if (!input) return 'unknown-item';
+      return input.toLowerCase().trim().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  }
+
+  private parseDate(str: string): string {
+      try {
+          if (!str) return new Date().toISOString();
+          // Format: "2024-01-15 14:32:10"
+          return new Date(str.replace(' ', 'T')).toISOString();
+      } catch {
+          return new Date().toISOString();
+      }
+  }
+}
@@ -1,5 +1,5 @@
 
-import { MarketingConfig, AdSpend } from '../types';
+import { MarketingConfig, AdSpend } from '../types.js';
 
 export class FacebookService {
     private readonly API_VERSION = 'v19.0';
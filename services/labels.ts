@@ -0,0 +1,192 @@
+import jsPDF from 'jspdf';
+import { Order, Product } from '../types';
+import { describeOrderItems, normalizePakistaniPhone } from './couriers/consignee';
+import { getOrderWeight } from './rateCards';
+
+export type LabelFormat = 'a4' | 'thermal';
+
+// Code 128 bar/space widths for symbol values 0-106 (106 = stop, which has an extra bar)
+const CODE128_PATTERNS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232', '2331112'
+];
+
+const START_B = 104;
+const START_C = 105;
+const STOP = 106;
+
+/**
+ * Encodes text as Code 128 and returns the module widths (bar, space, bar, ...).
+ * All-digit CNs of even length use code set C (two digits per symbol) for a denser barcode.
+ */
+export const encodeCode128 = (text: string): number[] => {
+  const useC = /^\d+$/.test(text) && text.length % 2 === 0;
+  const values: number[] = [useC ? START_C : START_B];
+
+  if (useC) {
+    for (let i = 0; i < text.length; i += 2) values.push(parseInt(text.substring(i, i + 2), 10));
+  } else {
+    for (const ch of text) {
+      const code = ch.charCodeAt(0);
+      values.push(code >= 32 && code <= 126 ? code - 32 : 0); // Unsupported characters become spaces
+    }
+  }
+
+  const checksum = values.reduce((sum, v, i) => sum + v * (i === 0 ? 1 : i), 0) % 103;
+  values.push(checksum, STOP);
+
+  return values.flatMap(v => CODE128_PATTERNS[v].split('').map(Number));
+};
+
+const drawBarcode = (doc: jsPDF, text: string, x: number, y: number, width: number, height: number) => {
+  const modules = encodeCode128(text);
+  const totalModules = modules.reduce((a, b) => a + b, 0);
+  const moduleWidth = width / totalModules;
+
+  doc.setFillColor(0, 0, 0);
+  let cursor = x;
+  modules.forEach((w, i) => {
+    // Even positions are bars, odd positions are spaces
+    if (i % 2 === 0) doc.rect(cursor, y, w * moduleWidth, height, 'F');
+    cursor += w * moduleWidth;
+  });
+};
+
+/**
+ * Draws a single airway bill inside the given box. The layout is sized for ~100x150mm
+ * and is shared by the A4 (4-up) and 4x6" thermal formats.
+ */
+const drawLabel = (doc: jsPDF, order: Order, storeName: string, products: Product[], x: number, y: number, w: number, h: number) => {
+  const pad = 4;
+  const inner = w - pad * 2;
+  let cy = y + pad;
+
+  doc.setDrawColor(0);
+  doc.setLineWidth(0.4);
+  doc.rect(x, y, w, h);
+
+  // Courier + order header
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(16);
+  doc.setTextColor(0);
+  doc.text(order.courier.toUpperCase(), x + pad, cy + 6);
+  doc.setFontSize(10);
+  doc.text(order.shopify_order_number, x + w - pad, cy + 6, { align: 'right' });
+  cy += 10;
+  doc.line(x, cy, x + w, cy);
+
+  // Barcode
+  cy += 3;
+  drawBarcode(doc, order.tracking_number, x + pad + 4, cy, inner - 8, 18);
+  cy += 22;
+  doc.setFont('courier', 'bold');
+  doc.setFontSize(11);
+  doc.text(order.tracking_number, x + w / 2, cy, { align: 'center' });
+  cy += 3;
+  doc.line(x, cy, x + w, cy);
+
+  // COD amount
+  cy += 8;
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(9);
+  doc.text('COD AMOUNT', x + pad, cy);
+  doc.setFontSize(18);
+  doc.text(`Rs. ${Math.round(order.cod_amount).toLocaleString()}`, x + w - pad, cy + 1, { align: 'right' });
+  cy += 5;
+  doc.line(x, cy, x + w, cy);
+
+  // Consignee
+  cy += 5;
+  doc.setFontSize(8);
+  doc.setTextColor(100);
+  doc.text('DELIVER TO', x + pad, cy);
+  doc.setTextColor(0);
+  cy += 5;
+  doc.setFontSize(11);
+  doc.text(order.customer_name || 'Customer', x + pad, cy);
+  cy += 5;
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  const phone = normalizePakistaniPhone(order.customer_phone) || order.customer_phone || '';
+  if (phone) {
+    doc.text(phone, x + pad, cy);
+    cy += 4.5;
+  }
+  const addressLines = doc.splitTextToSize(order.customer_address || '', inner).slice(0, 3);
+  doc.text(addressLines, x + pad, cy);
+  cy += addressLines.length * 4 + 1;
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(12);
+  doc.text(order.customer_city.toUpperCase(), x + pad, cy + 1);
+  cy += 4;
+  doc.line(x, cy, x + w, cy);
+
+  // Items
+  cy += 5;
+  doc.setFontSize(8);
+  doc.setTextColor(100);
+  doc.text('CONTENTS', x + pad, cy);
+  doc.text(`${getOrderWeight(order, products)} kg`, x + w - pad, cy, { align: 'right' });
+  doc.setTextColor(0);
+  cy += 4.5;
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(8);
+  const footerTop = y + h - 12;
+  const maxItemLines = Math.max(1, Math.floor((footerTop - cy) / 3.6));
+  const itemLines: string[] = doc.splitTextToSize(describeOrderItems(order), inner);
+  doc.text(itemLines.slice(0, maxItemLines), x + pad, cy);
+
+  // Shipper footer
+  doc.line(x, footerTop, x + w, footerTop);
+  doc.setFontSize(7);
+  doc.setTextColor(100);
+  doc.text(`From: ${storeName}`, x + pad, footerTop + 5);
+  doc.text(`Order Date: ${new Date(order.created_at).toLocaleDateString()}`, x + w - pad, footerTop + 5, { align: 'right' });
+  doc.text('Open parcel only after payment. No return without courier receipt.', x + pad, footerTop + 9);
+  doc.setTextColor(0);
+};
+
+/**
+ * Generates airway bills for booked orders and downloads the PDF.
+ * `a4` prints four labels per page; `thermal` prints one 4x6" label per page.
+ */
+export const generateLabelsPdf = (orders: Order[], format: LabelFormat, storeName: string, products: Product[]) => {
+  const printable = orders.filter(o => o.tracking_number && o.tracking_number !== 'Pending');
+  if (printable.length === 0) throw new Error("No booked orders with tracking numbers selected.");
+
+  const todayStr = new Date().toISOString().split('T')[0];
+
+  if (format === 'thermal') {
+    const doc = new jsPDF({ orientation: 'p', unit: 'mm', format: [101.6, 152.4] });
+    printable.forEach((order, i) => {
+      if (i > 0) doc.addPage([101.6, 152.4], 'p');
+      drawLabel(doc, order, storeName, products, 2, 2, 97.6, 148.4);
+    });
+    doc.save(`Labels_4x6_${todayStr}.pdf`);
+    return;
+  }
+
+  const doc = new jsPDF('p', 'mm', 'a4');
+  const margin = 5;
+  const labelW = (210 - margin * 3) / 2;
+  const labelH = (297 - margin * 3) / 2;
+
+  printable.forEach((order, i) => {
+    const slot = i % 4;
+    if (i > 0 && slot === 0) doc.addPage();
+    const col = slot % 2;
+    const row = Math.floor(slot / 2);
+    drawLabel(doc, order, storeName, products, margin + col * (labelW + margin), margin + row * (labelH + margin), labelW, labelH);
+  });
+
+  doc.save(`Labels_A4_${todayStr}.pdf`);
+};
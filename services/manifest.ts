@@ -0,0 +1,125 @@
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { CourierName, Order } from '../types';
+import { describeOrderItems } from './couriers/consignee';
+
+export interface CourierManifest {
+  courier: CourierName;
+  orders: Order[];
+  total_cod: number;
+}
+
+/**
+ * Groups booked orders that have not been handed over yet into one manifest per courier.
+ */
+export const buildManifests = (orders: Order[]): CourierManifest[] => {
+  const groups = new Map<CourierName, Order[]>();
+  orders.forEach(o => {
+    groups.set(o.courier, [...(groups.get(o.courier) || []), o]);
+  });
+
+  return Array.from(groups.entries())
+    .map(([courier, group]) => ({
+      courier,
+      orders: group,
+      total_cod: group.reduce((sum, o) => sum + o.cod_amount, 0)
+    }))
+    .sort((a, b) => b.orders.length - a.orders.length);
+};
+
+const fileName = (manifest: CourierManifest, storeName: string, ext: string) => {
+  const todayStr = new Date().toISOString().split('T')[0];
+  return `${storeName.replace(/\s+/g, '_')}_${manifest.courier.replace(/[^a-zA-Z0-9]+/g, '')}_Load_Sheet_${todayStr}.${ext}`;
+};
+
+/**
+ * Load sheet PDF handed to the rider at pickup, with totals and sign-off boxes for both parties.
+ */
+export const generateManifestPdf = (manifest: CourierManifest, storeName: string) => {
+  const doc = new jsPDF();
+
+  doc.setTextColor(20, 83, 45); // Brand Green
+  doc.setFontSize(20);
+  doc.text(`${manifest.courier} Load Sheet`, 14, 20);
+
+  doc.setTextColor(100);
+  doc.setFontSize(10);
+  doc.text(`${storeName} · ${new Date().toLocaleString()}`, 14, 26);
+  doc.setDrawColor(200);
+  doc.line(14, 30, 196, 30);
+
+  // Summary box
+  doc.setFillColor(248, 250, 252);
+  doc.roundedRect(14, 35, 182, 18, 3, 3, 'FD');
+  doc.setTextColor(0);
+  doc.setFontSize(11);
+  doc.text(`Total Shipments: ${manifest.orders.length}`, 20, 46);
+  doc.text(`Total COD: Rs. ${Math.round(manifest.total_cod).toLocaleString()}`, 110, 46);
+
+  autoTable(doc, {
+    head: [['#', 'CN', 'Order', 'Consignee', 'City', 'Items', 'COD']],
+    body: manifest.orders.map((o, i) => [
+      i + 1,
+      o.tracking_number,
+      o.shopify_order_number,
+      o.customer_name || '-',
+      o.customer_city,
+      describeOrderItems(o),
+      Math.round(o.cod_amount).toLocaleString()
+    ]),
+    foot: [['', '', '', '', '', 'Total', Math.round(manifest.total_cod).toLocaleString()]],
+    startY: 60,
+    theme: 'grid',
+    headStyles: { fillColor: [22, 163, 74], textColor: 255, fontSize: 8 },
+    footStyles: { fillColor: [241, 245, 249], textColor: 0, fontSize: 8 },
+    styles: { fontSize: 7, cellPadding: 2 },
+    columnStyles: {
+      1: { font: 'courier' },
+      5: { cellWidth: 50 },
+      6: { halign: 'right' }
+    }
+  });
+
+  // Sign-off
+  let y = ((doc as any).lastAutoTable?.finalY || 60) + 20;
+  if (y > 260) {
+    doc.addPage();
+    y = 30;
+  }
+  doc.setFontSize(9);
+  doc.setTextColor(0);
+  doc.line(14, y, 90, y);
+  doc.line(120, y, 196, y);
+  doc.text('Handed over by (Shipper)', 14, y + 5);
+  doc.text('Received by (Rider name, ID & signature)', 120, y + 5);
+  doc.text(`Shipments received: ______ of ${manifest.orders.length}`, 120, y + 12);
+
+  doc.save(fileName(manifest, storeName, 'pdf'));
+};
+
+export const generateManifestCsv = (manifest: CourierManifest, storeName: string) => {
+  const escape = (value: string | number) => `"${String(value).replace(/"/g, '""')}"`;
+
+  const rows = [
+    ['CN', 'Order', 'Consignee', 'Phone', 'Address', 'City', 'Items', 'COD'],
+    ...manifest.orders.map(o => [
+      o.tracking_number,
+      o.shopify_order_number,
+      o.customer_name || '',
+      o.customer_phone || '',
+      o.customer_address || '',
+      o.customer_city,
+      describeOrderItems(o),
+      Math.round(o.cod_amount)
+    ]),
+    ['', '', '', '', '', '', `Total (${manifest.orders.length})`, Math.round(manifest.total_cod)]
+  ];
+
+  const csv = rows.map(r => r.map(escape).join(',')).join('\n');
+  const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8;' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName(manifest, storeName, 'csv');
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -1,5 +1,5 @@
-import { Order, OrderStatus, PaymentStatus, CourierName, AdSpend, Product } from '../types';
-import { COURIER_RATES, CITIES, MOCK_PRODUCTS, PACKAGING_COST_AVG } from '../constants';
+import { Order, OrderStatus, PaymentStatus, CourierName, AdSpend, Product } from '../types.js';
+import { COURIER_RATES, CITIES, MOCK_PRODUCTS, PACKAGING_COST_AVG } from '../constants.js';
 
 const generateId = () => Math.random().toString(36).substr(2, 9);
 
@@ -0,0 +1,49 @@
+import { Order, OrderStatus, TrackingCheckpoint } from '../types';
+import { getCourierAdapter, isKnownCourier } from './couriers/registry';
+
+export interface NdrCase {
+  order: Order;
+  attempts: number;
+  reason: string;
+  last_attempt_at: string;
+  days_open: number;
+  is_actioned: boolean; // Advice was given after the latest attempt
+}
+
+const isAttemptCheckpoint = (order: Order, checkpoint: TrackingCheckpoint): boolean => {
+  if (!isKnownCourier(order.courier)) return false;
+  return getCourierAdapter(order.courier).mapStatus(checkpoint.status) === OrderStatus.DELIVERY_ATTEMPTED;
+};
+
+/**
+ * Failed-attempt checkpoints from the order's tracking history, newest first.
+ */
+export const getAttemptCheckpoints = (order: Order): TrackingCheckpoint[] => {
+  return (order.tracking_history || []).filter(c => isAttemptCheckpoint(order, c));
+};
+
+/**
+ * Builds the NDR queue: orders currently sitting in a failed attempt, oldest attempt first.
+ */
+export const buildNdrQueue = (orders: Order[]): NdrCase[] => {
+  const now = Date.now();
+
+  return orders
+    .filter(o => o.status === OrderStatus.DELIVERY_ATTEMPTED)
+    .map(order => {
+      const attempts = getAttemptCheckpoints(order);
+      const latest = attempts[0];
+      const last_attempt_at = latest?.timestamp || order.tracking_history?.[0]?.timestamp || order.created_at;
+
+      return {
+        order,
+        attempts: Math.max(attempts.length, 1),
+        // Couriers put the undelivered reason in remarks; fall back to the status text itself
+        reason: latest?.remarks || latest?.status || order.courier_raw_status || 'No reason given',
+        last_attempt_at,
+        days_open: Math.max(0, Math.floor((now - new Date(last_attempt_at).getTime()) / 86400000)),
+        is_actioned: !!order.ndr_action_at && new Date(order.ndr_action_at) >= new Date(last_attempt_at)
+      };
+    })
+    .sort((a, b) => new Date(a.last_attempt_at).getTime() - new Date(b.last_attempt_at).getTime());
+};
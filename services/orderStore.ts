@@ -0,0 +1,199 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Order, OrderItem, ShopifyOrder } from '../types.js';
+
+// Keeps each PostgREST request well under the payload limit
+const CHUNK_SIZE = 500;
+
+// PostgREST's default max-rows; larger reads are paged
+const PAGE_SIZE = 1000;
+
+// Order columns the app writes directly: bookings, handover, NDR advice, RTO check-in and payouts
+const APP_ORDER_COLUMNS = 'id, shopify_order_number, courier, tracking_number, status, courier_raw_status, weight_kg, booked_at, handed_over_at, ndr_action, ndr_action_at, ndr_remarks, rto_received_at, payment_status, settlement_date, settlement_reference';
+
+const chunk = <T>(rows: T[]): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < rows.length; i += CHUNK_SIZE) chunks.push(rows.slice(i, i + CHUNK_SIZE));
+  return chunks;
+};
+
+const fetchAllRows = async (client: SupabaseClient, table: string, userId: string, createdSince?: string, columns = '*'): Promise<any[]> => {
+  const rows: any[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = client.from(table).select(columns).eq('user_id', userId);
+    if (createdSince) query = query.gte('created_at', createdSince);
+    const { data, error } = await query.order('id').range(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(`Loading ${table} failed: ${error.message}`);
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+};
+
+/**
+ * Costs are left out: they follow the user's current settings and are recalculated on load.
+ */
+const toOrderRow = (userId: string, o: Order, syncedAt: string) => ({
+  user_id: userId,
+  id: o.id,
+  shopify_order_number: o.shopify_order_number,
+  created_at: o.created_at,
+  customer_city: o.customer_city,
+  courier: o.courier,
+  tracking_number: o.tracking_number,
+  status: o.status,
+  payment_status: o.payment_status,
+  cod_amount: o.cod_amount,
+  shipping_fee_paid_by_customer: o.shipping_fee_paid_by_customer,
+  actual_courier_charges: o.actual_courier_charges ?? null,
+  data_source: o.data_source || null,
+  courier_raw_status: o.courier_raw_status || null,
+  customer_name: o.customer_name || null,
+  customer_phone: o.customer_phone || null,
+  customer_address: o.customer_address || null,
+  item_description: o.item_description || null,
+  weight_kg: o.weight_kg ?? null,
+  booked_at: o.booked_at || null,
+  tracking_history: o.tracking_history || null,
+  handed_over_at: o.handed_over_at || null,
+  ndr_action: o.ndr_action || null,
+  ndr_action_at: o.ndr_action_at || null,
+  ndr_remarks: o.ndr_remarks || null,
+  rto_received_at: o.rto_received_at || null,
+  settlement_date: o.settlement_date || null,
+  settlement_reference: o.settlement_reference || null,
+  synced_at: syncedAt
+});
+
+const fromItemRow = (r: any): OrderItem => ({
+  product_id: r.product_id || 'unknown',
+  quantity: Number(r.quantity) || 1,
+  sale_price: Number(r.sale_price) || 0,
+  product_name: r.product_name,
+  sku: r.sku || '',
+  variant_fingerprint: r.variant_fingerprint || undefined,
+  cogs_at_time_of_order: 0
+});
+
+const fromOrderRow = (r: any, items: OrderItem[]): Order => ({
+  id: r.id,
+  shopify_order_number: r.shopify_order_number || '',
+  created_at: r.created_at,
+  customer_city: r.customer_city || 'Unknown',
+  courier: r.courier,
+  tracking_number: r.tracking_number || 'Pending',
+  status: r.status,
+  payment_status: r.payment_status,
+  cod_amount: Number(r.cod_amount) || 0,
+  shipping_fee_paid_by_customer: Number(r.shipping_fee_paid_by_customer) || 0,
+  courier_fee: 0,
+  packaging_cost: 0,
+  overhead_cost: 0,
+  tax_amount: 0,
+  rto_penalty: 0,
+  actual_courier_charges: r.actual_courier_charges != null ? Number(r.actual_courier_charges) : undefined,
+  items,
+  data_source: r.data_source || undefined,
+  courier_raw_status: r.courier_raw_status || undefined,
+  customer_name: r.customer_name || undefined,
+  customer_phone: r.customer_phone || undefined,
+  customer_address: r.customer_address || undefined,
+  item_description: r.item_description || undefined,
+  weight_kg: r.weight_kg != null ? Number(r.weight_kg) : undefined,
+  booked_at: r.booked_at || undefined,
+  handed_over_at: r.handed_over_at || undefined,
+  tracking_history: r.tracking_history || undefined,
+  ndr_action: r.ndr_action || undefined,
+  ndr_action_at: r.ndr_action_at || undefined,
+  ndr_remarks: r.ndr_remarks || undefined,
+  rto_received_at: r.rto_received_at || undefined,
+  settlement_date: r.settlement_date || undefined,
+  settlement_reference: r.settlement_reference || undefined
+});
+
+/**
+ * Every stored order of a user with its line items. Costs come back as zero until recalculated.
+ */
+export const loadOrders = async (client: SupabaseClient, userId: string): Promise<Order[]> => {
+  const [orderRows, itemRows] = await Promise.all([
+    fetchAllRows(client, 'orders', userId),
+    fetchAllRows(client, 'order_items', userId)
+  ]);
+
+  const itemsByOrder = new Map<string, OrderItem[]>();
+  itemRows.forEach(r => itemsByOrder.set(r.order_id, [...(itemsByOrder.get(r.order_id) || []), fromItemRow(r)]));
+  return orderRows.map(r => fromOrderRow(r, itemsByOrder.get(r.id) || []));
+};
+
+/**
+ * Only the columns the app writes itself, without line items. A long server sync re-reads these right before
+ * saving, so changes made in the app while it ran are merged in rather than overwritten.
+ */
+export const loadOrderAppFields = async (client: SupabaseClient, userId: string): Promise<Order[]> => {
+  const rows = await fetchAllRows(client, 'orders', userId, undefined, APP_ORDER_COLUMNS);
+  return rows.map(r => fromOrderRow(r, []));
+};
+
+/**
+ * Upserts orders and replaces their line items. Orders should be merged with the stored set first
+ * (see mergeStoredOrders), otherwise fields the courier does not report (handover, NDR advice) are cleared.
+ */
+export const saveOrders = async (client: SupabaseClient, userId: string, orders: Order[]): Promise<void> => {
+  const syncedAt = new Date().toISOString();
+
+  for (const batch of chunk(orders)) {
+    const { error } = await client.from('orders').upsert(batch.map(o => toOrderRow(userId, o, syncedAt)), { onConflict: 'user_id,id' });
+    if (error) throw new Error(`Saving orders failed: ${error.message}`);
+
+    const ids = batch.map(o => o.id);
+    const { error: deleteError } = await client.from('order_items').delete().eq('user_id', userId).in('order_id', ids);
+    if (deleteError) throw new Error(`Saving order items failed: ${deleteError.message}`);
+
+    const items = batch.flatMap(o => o.items.map(item => ({
+      user_id: userId,
+      order_id: o.id,
+      product_id: item.product_id,
+      product_name: item.product_name,
+      quantity: item.quantity,
+      sale_price: item.sale_price,
+      sku: item.sku || null,
+      variant_fingerprint: item.variant_fingerprint || null
+    })));
+    if (items.length > 0) {
+      const { error: insertError } = await client.from('order_items').insert(items);
+      if (insertError) throw new Error(`Saving order items failed: ${insertError.message}`);
+    }
+  }
+};
+
+export const deleteOrders = async (client: SupabaseClient, userId: string, ids: string[]): Promise<void> => {
+  for (const batch of chunk(ids)) {
+    const { error } = await client.from('orders').delete().eq('user_id', userId).in('id', batch);
+    if (error) throw new Error(`Removing replaced orders failed: ${error.message}`);
+  }
+};
+
+/**
+ * Tracking numbers already matched to a reconciled courier statement.
+ */
+export const loadRemittedTrackingNumbers = async (client: SupabaseClient, userId: string): Promise<Set<string>> => {
+  const rows = await fetchAllRows(client, 'courier_remittances', userId);
+  return new Set(rows.map(r => String(r.tracking_number)));
+};
+
+/**
+ * Stored Shopify orders created on or after `createdSince`, as received from Shopify.
+ */
+export const loadShopifyOrders = async (client: SupabaseClient, userId: string, createdSince: string): Promise<ShopifyOrder[]> => {
+  const rows = await fetchAllRows(client, 'shopify_orders', userId, createdSince);
+  return rows.map(r => r.payload as ShopifyOrder);
+};
+
+/**
+ * Stores Shopify orders as received, for reconciliation and for rebuilding courier orders without calling Shopify.
+ */
+export const saveShopifyOrders = async (client: SupabaseClient, userId: string, orders: ShopifyOrder[]): Promise<void> => {
+  for (const batch of chunk(orders)) {
+    const rows = batch.map(s => ({ user_id: userId, id: s.id, name: s.name, created_at: s.created_at, payload: s }));
+    const { error } = await client.from('shopify_orders').upsert(rows, { onConflict: 'user_id,id' });
+    if (error) throw new Error(`Saving Shopify orders failed: ${error.message}`);
+  }
+};
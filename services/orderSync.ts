@@ -0,0 +1,345 @@
+import { CourierName, CourierRateCard, CourierSettlement, Order, OrderStatus, PaymentStatus, ShopifyOrder, TrackingCheckpoint } from '../types.js';
+import { CourierConfigMap, getConfiguredCouriers, getBackfillCouriers, resolveCourier, detectCourier } from './couriers/registry.js';
+
+export interface OrderSyncResult {
+  orders: Order[];
+  errors: string[]; // One per source that failed, e.g. "PostEx Failed: ..."
+  notices: string[];
+}
+
+// Same window the Shopify fetch covers
+const BACKFILL_DAYS = 120;
+
+// Live tracking for backfilled CNs runs in small batches to stay under courier rate limits
+const BATCH_SIZE = 5;
+const DELAY_MS = 1000;
+
+/**
+ * Resolves the courier for a Shopify order from its tags, then its fulfillment's tracking company.
+ */
+const detectShopifyCourier = (s: ShopifyOrder, trackingCompany: string, trackingNumber: string, configs: CourierConfigMap): CourierName | null => {
+  const fromTags = detectCourier(s.tags);
+  if (fromTags) return fromTags;
+
+  const fromCompany = detectCourier(trackingCompany);
+  if (fromCompany) return fromCompany;
+
+  // Unlabelled numeric CNs: TCS often pure numbers, else whichever backfill courier is enabled
+  const num = trackingNumber.replace(/[^a-zA-Z0-9]/g, '');
+  if (/^\d{9,16}$/.test(num)) return CourierName.TCS;
+  if (/^\d+$/.test(num)) {
+    return getBackfillCouriers().find(name => !!configs[name]) || null;
+  }
+  return null;
+};
+
+/**
+ * Converts one Shopify order into a courier order, live-tracking its CN when the courier is configured.
+ * Costs are placeholders; they are recalculated from the user's settings when orders are loaded.
+ */
+const toBackfillOrder = async (sOrder: ShopifyOrder, configs: CourierConfigMap, rates: Record<CourierName, CourierRateCard>): Promise<Order> => {
+  const ff = sOrder.fulfillments?.find(f => f.tracking_number);
+  const company = ff?.tracking_company ? String(ff.tracking_company) : '';
+  const num = ff?.tracking_number ? String(ff.tracking_number) : '';
+
+  // Default to TCS if unsure
+  const courier = detectShopifyCourier(sOrder, company, num, configs) || CourierName.TCS;
+
+  // Unfulfilled orders stay PENDING under their Shopify id until a CN exists
+  let trackingNo = 'Pending';
+  let status = OrderStatus.PENDING;
+  let rawStatusText = 'Waiting for Fulfillment';
+  let trackingHistory: TrackingCheckpoint[] | undefined;
+  let orderId = String(sOrder.id);
+
+  if (ff && ff.tracking_number) {
+    trackingNo = ff.tracking_number;
+    orderId = ff.tracking_number; // Prefer Tracking Number as ID
+    status = OrderStatus.BOOKED;
+    rawStatusText = 'Booked / Pending Scan';
+
+    const resolved = resolveCourier(courier, configs);
+    if (resolved) {
+      try {
+        const update = await resolved.adapter.track(trackingNo, resolved.config);
+        status = update.status;
+        rawStatusText = update.raw_status_text;
+        trackingHistory = update.checkpoints;
+      } catch (e) {
+        // Silent fail - remains BOOKED
+      }
+    }
+  }
+
+  const safeItems = Array.isArray(sOrder.line_items) ? sOrder.line_items : [];
+
+  // Consignee details for bookings
+  const shipTo = sOrder.shipping_address;
+  const customerName = (shipTo?.name || [shipTo?.first_name || sOrder.customer?.first_name, shipTo?.last_name || sOrder.customer?.last_name].filter(Boolean).join(' ')).trim();
+  const totalGrams = safeItems.reduce((acc, li) => acc + (li.grams || 0) * (li.quantity || 1), 0);
+
+  // Line items are consolidated (sorted) so the same basket always gets the same product name
+  let combinedName = 'Unknown Item';
+  let totalItemPrice = 0;
+  if (safeItems.length > 0) {
+    combinedName = safeItems
+      .map(li => {
+        const qty = li.quantity || 1;
+        const name = (li.name || li.title || 'Item').trim();
+        return { name, qty, str: `${qty}x ${name}` };
+      })
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(i => i.str)
+      .join(' + ');
+
+    totalItemPrice = safeItems.reduce((acc, curr) => acc + (parseFloat(curr.price || '0') * (curr.quantity || 1)), 0);
+  }
+
+  const rateCard = rates[courier] || rates[CourierName.TCS];
+
+  return {
+    id: orderId,
+    shopify_order_number: sOrder.name || 'Unknown',
+    created_at: sOrder.created_at,
+    customer_city: sOrder.shipping_address?.city || sOrder.customer?.city || 'Unknown',
+    courier,
+    tracking_number: trackingNo,
+    status,
+    payment_status: PaymentStatus.UNPAID,
+    cod_amount: parseFloat(sOrder.total_price || '0'),
+    shipping_fee_paid_by_customer: 0,
+    courier_fee: rateCard.forward,
+    rto_penalty: 0,
+    packaging_cost: 0,
+    overhead_cost: 0,
+    tax_amount: 0,
+    data_source: 'tracking',
+    courier_raw_status: rawStatusText,
+    customer_name: customerName,
+    customer_phone: shipTo?.phone || sOrder.phone || sOrder.customer?.phone || '',
+    customer_address: [shipTo?.address1, shipTo?.address2].filter(Boolean).join(', '),
+    item_description: combinedName,
+    weight_kg: totalGrams > 0 ? totalGrams / 1000 : undefined,
+    booked_at: ff?.created_at,
+    tracking_history: trackingHistory,
+    items: [{
+      product_id: 'unknown',
+      quantity: 1,
+      sale_price: totalItemPrice,
+      product_name: combinedName,
+      sku: '',
+      variant_fingerprint: combinedName,
+      cogs_at_time_of_order: 0
+    }]
+  };
+};
+
+const hasTrackingNumber = (o: Order): boolean => !!o.tracking_number && o.tracking_number !== 'Pending';
+
+/**
+ * Orders for couriers without a list API (TCS, Daewoo), rebuilt from Shopify tags and fulfillments.
+ * Shopify orders already covered by a courier's own list are skipped, as are unfulfilled ones
+ * whose stored copy was booked in the app (the rebuild would only say "Pending").
+ */
+export const backfillFromShopify = async (
+  shopifyOrders: ShopifyOrder[],
+  existing: Order[],
+  configs: CourierConfigMap,
+  rates: Record<CourierName, CourierRateCard>,
+  stored: Order[] = []
+): Promise<Order[]> => {
+  const backfillCouriers = getBackfillCouriers();
+  const hasBackfillConfig = backfillCouriers.some(name => !!configs[name]);
+
+  const cutoffDate = new Date();
+  cutoffDate.setDate(cutoffDate.getDate() - BACKFILL_DAYS);
+
+  const existingRefNos = new Set(existing.map(o => String(o.shopify_order_number || '').replace('#', '').toLowerCase()));
+  const existingTrackingNos = new Set(existing.map(o => String(o.tracking_number || '').toLowerCase()));
+  const bookedRefNos = new Set(stored.filter(hasTrackingNumber).map(o => String(o.shopify_order_number || '').replace('#', '').toLowerCase()));
+
+  const candidates = shopifyOrders.filter(s => {
+    if (!s) return false;
+    if (new Date(s.created_at) < cutoffDate) return false;
+
+    if (existingRefNos.has(String(s.name || '').replace('#', '').toLowerCase())) return false;
+    const hasExistingTracking = s.fulfillments?.some(f =>
+      f.tracking_number && existingTrackingNos.has(String(f.tracking_number).toLowerCase())
+    );
+    if (hasExistingTracking) return false;
+    if (!s.fulfillments?.some(f => f.tracking_number) && bookedRefNos.has(String(s.name || '').replace('#', '').toLowerCase())) return false;
+
+    // Tagged for a backfill courier (e.g. "tcs", "daewoo", "fastex")
+    const taggedCourier = detectCourier(s.tags);
+    if (taggedCourier) return backfillCouriers.includes(taggedCourier);
+
+    // If already fulfilled but not tagged, check the tracking company
+    const isFulfilled = s.fulfillment_status === 'fulfilled' || s.fulfillment_status === 'partial' || s.fulfillment_status === 'partially_fulfilled';
+    if (isFulfilled) {
+      return !!s.fulfillments?.some(f => {
+        const courier = detectShopifyCourier(s, String(f.tracking_company || ''), String(f.tracking_number || ''), configs);
+        return !!courier && backfillCouriers.includes(courier);
+      });
+    }
+    return false;
+  });
+
+  const backfilled: Order[] = [];
+  for (let i = 0; i < candidates.length; i += BATCH_SIZE) {
+    const batch = candidates.slice(i, i + BATCH_SIZE);
+    const results = await Promise.all(batch.map(s => toBackfillOrder(s, configs, rates).catch(() => null)));
+    backfilled.push(...results.filter((o): o is Order => o !== null));
+
+    if (hasBackfillConfig && i + BATCH_SIZE < candidates.length) {
+      await new Promise(r => setTimeout(r, DELAY_MS));
+    }
+  }
+  return backfilled;
+};
+
+/**
+ * One order per Shopify order number; a courier's own record wins over one rebuilt from Shopify.
+ */
+export const dedupeOrders = (orders: Order[]): Order[] => {
+  const unique = new Map<string, Order>();
+  orders.forEach(order => {
+    const key = order.shopify_order_number.trim().toLowerCase().replace('#', '');
+    const existing = unique.get(key);
+    if (!existing || (existing.data_source === 'tracking' && order.data_source !== 'tracking')) {
+      unique.set(key, order);
+    }
+  });
+  return Array.from(unique.values());
+};
+
+/**
+ * Pulls recent orders from every courier with a list API, backfills the rest from Shopify and dedupes.
+ * `stored` is the user's saved order set, so bookings made in the app are not rebuilt as pending.
+ * A failing courier is reported in `errors` without stopping the others.
+ */
+export const syncCourierOrders = async (
+  shopifyOrders: ShopifyOrder[],
+  configs: CourierConfigMap,
+  rates: Record<CourierName, CourierRateCard>,
+  stored: Order[] = []
+): Promise<OrderSyncResult> => {
+  let orders: Order[] = [];
+  const errors: string[] = [];
+  const notices: string[] = [];
+
+  for (const courier of getConfiguredCouriers(configs, 'canList')) {
+    try {
+      const courierOrders = await courier.adapter.fetchRecentOrders(courier.config);
+      orders = [...orders, ...courierOrders];
+      if (courierOrders.length === 0) notices.push(`${courier.name} connected but returned 0 orders in last 60 days.`);
+    } catch (e: any) {
+      console.error(`${courier.name} Sync Error:`, e);
+      errors.push(`${courier.name} Failed: ` + e.message);
+    }
+  }
+
+  if (shopifyOrders.length > 0) {
+    const backfilled = await backfillFromShopify(shopifyOrders, orders, configs, rates, stored);
+    if (backfilled.length > 0) {
+      console.log(`[Backfill] Found ${backfilled.length} orders from last ${BACKFILL_DAYS} days.`);
+      notices.push(`Found ${backfilled.length} orders via Shopify tags/tracking.`);
+      orders = [...orders, ...backfilled];
+    }
+  }
+
+  return { orders: dedupeOrders(orders), errors, notices };
+};
+
+export interface MergedOrders {
+  orders: Order[]; // Everything to show: refreshed orders plus stored ones the live pull no longer covers
+  refreshed: Order[]; // Live orders with stored user fields carried over; these need saving
+  superseded: string[]; // Stored ids replaced under a new id (e.g. a pending order that now has a CN)
+}
+
+const orderNumberKey = (o: Order): string => String(o.shopify_order_number || '').trim().toLowerCase().replace('#', '');
+
+/**
+ * Warehouse-side facts outrank a courier status that lags behind them.
+ * Apply after the user's status mappings, which only see the courier's text.
+ */
+export const applyWarehouseStatus = (o: Order): Order => {
+  if (o.rto_received_at) return { ...o, status: OrderStatus.RETURNED };
+  if (o.handed_over_at && o.status === OrderStatus.BOOKED) return { ...o, status: OrderStatus.IN_TRANSIT };
+  return o;
+};
+
+/**
+ * Merges a live pull into the stored order set. Fields only this app records (handover, NDR advice, RTO check-in,
+ * our own booking time) are kept from the stored copy, as is a payout the live list does not report, and a booking
+ * made in the app when the live copy is an unfulfilled Shopify rebuild. Orders older than the couriers' list windows stay.
+ */
+export const mergeStoredOrders = (stored: Order[], live: Order[]): MergedOrders => {
+  const storedById = new Map(stored.map(o => [o.id, o]));
+  const storedByNumber = new Map(stored.filter(o => orderNumberKey(o) && orderNumberKey(o) !== 'unknown').map(o => [orderNumberKey(o), o]));
+
+  const refreshed = live.map(o => {
+    const prev = storedById.get(o.id) || storedByNumber.get(orderNumberKey(o));
+    if (!prev) return applyWarehouseStatus(o);
+    const keepSettlement = prev.payment_status === PaymentStatus.REMITTED && o.payment_status === PaymentStatus.UNPAID;
+    const keepBooking = !hasTrackingNumber(o) && hasTrackingNumber(prev);
+    return applyWarehouseStatus({
+      ...o,
+      ...(keepSettlement ? { payment_status: prev.payment_status, settlement_date: prev.settlement_date, settlement_reference: prev.settlement_reference } : {}),
+      ...(keepBooking ? { courier: prev.courier, tracking_number: prev.tracking_number, status: prev.status, courier_raw_status: prev.courier_raw_status, weight_kg: prev.weight_kg } : {}),
+      booked_at: o.booked_at || prev.booked_at,
+      handed_over_at: prev.handed_over_at,
+      ndr_action: prev.ndr_action,
+      ndr_action_at: prev.ndr_action_at,
+      ndr_remarks: prev.ndr_remarks,
+      rto_received_at: prev.rto_received_at,
+      tracking_history: o.tracking_history || prev.tracking_history
+    });
+  });
+
+  const liveIds = new Set(live.map(o => o.id));
+  const liveNumbers = new Set(live.map(orderNumberKey).filter(k => k && k !== 'unknown'));
+  const kept: Order[] = [];
+  const superseded: string[] = [];
+  stored.forEach(o => {
+    if (liveIds.has(o.id)) return;
+    if (liveNumbers.has(orderNumberKey(o))) superseded.push(o.id);
+    else kept.push(applyWarehouseStatus(o));
+  });
+
+  return { orders: [...refreshed, ...kept], refreshed, superseded };
+};
+
+/**
+ * Asks couriers whose order list carries no payment info (canSettle) about delivered orders that are still unpaid.
+ * Orders already remitted, or matched to a reconciled statement (`remittedCns`), are never looked up again.
+ * Courier failures are added to `errors`.
+ */
+export const applyCourierSettlements = async (
+  orders: Order[],
+  configs: CourierConfigMap,
+  remittedCns: Set<string>,
+  errors: string[]
+): Promise<Order[]> => {
+  const settlements = new Map<string, CourierSettlement>();
+
+  for (const courier of getConfiguredCouriers(configs, 'canSettle')) {
+    if (!courier.adapter.fetchSettlements) continue;
+    const pending = orders
+      .filter(o => o.courier === courier.name && o.status === OrderStatus.DELIVERED && o.payment_status === PaymentStatus.UNPAID)
+      .map(o => o.tracking_number)
+      .filter(cn => cn && cn !== 'Pending' && !remittedCns.has(cn));
+    if (pending.length === 0) continue;
+
+    try {
+      (await courier.adapter.fetchSettlements(pending, courier.config)).forEach(s => settlements.set(s.tracking_number, s));
+    } catch (e: any) {
+      errors.push(`${courier.name} Settlements Failed: ` + e.message);
+    }
+  }
+
+  return orders.map(o => {
+    const settlement = settlements.get(o.tracking_number);
+    if (!settlement || settlement.payment_status !== PaymentStatus.REMITTED) return o;
+    return { ...o, payment_status: settlement.payment_status, settlement_date: settlement.settlement_date, settlement_reference: settlement.settlement_reference };
+  });
+};
@@ -0,0 +1,12 @@
+/**
+ * True in the sync worker. Public CORS proxies are a browser-only fallback: the server has no CORS to get around
+ * and must never hand a stored API token to a third party.
+ */
+export const isServer = (): boolean => typeof window === 'undefined';
+
+/**
+ * URL to call a third-party API with. Courier and Shopify APIs send no CORS headers, so the browser goes
+ * through our /api/proxy function; server-side code (the sync worker) calls them directly.
+ */
+export const proxyUrl = (url: string): string =>
+  isServer() ? url : `/api/proxy?url=${encodeURIComponent(url)}`;
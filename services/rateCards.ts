@@ -0,0 +1,63 @@
+import { CourierRateCard, Order, Product, ShippingZone, WeightSlabRate } from '../types';
+import { CITY_ZONES, DEFAULT_PARCEL_WEIGHT_KG } from '../constants';
+import { normalizeCity } from './cities';
+
+export const SHIPPING_ZONES: ShippingZone[] = ['SAME_CITY', 'SAME_ZONE', 'CROSS_ZONE'];
+
+export const SHIPPING_ZONE_LABELS: Record<ShippingZone, string> = {
+  SAME_CITY: 'Same City',
+  SAME_ZONE: 'Same Zone',
+  CROSS_ZONE: 'Cross Zone'
+};
+
+/**
+ * Tariff zone of a consignment. Cities missing from the zone map are priced as cross-zone,
+ * which is what couriers bill for destinations outside their listed networks.
+ */
+export const getShippingZone = (originCity: string | undefined, destinationCity: string | undefined): ShippingZone => {
+  const origin = normalizeCity(originCity);
+  const destination = normalizeCity(destinationCity);
+  if (origin && origin === destination) return 'SAME_CITY';
+
+  const originZone = CITY_ZONES[origin];
+  if (originZone && originZone === CITY_ZONES[destination]) return 'SAME_ZONE';
+  return 'CROSS_ZONE';
+};
+
+/**
+ * Forward fee for a parcel on one zone's slabs; each started kilogram above 1 kg is billed in full.
+ */
+export const getSlabFee = (rate: WeightSlabRate, weightKg: number): number => {
+  if (weightKg <= 0.5) return rate.upto_half_kg;
+  if (weightKg <= 1) return rate.upto_1kg;
+  return rate.upto_1kg + Math.ceil(weightKg - 1) * rate.additional_kg;
+};
+
+/**
+ * Forward fee from a rate card. Cards without weight slabs keep charging their flat forward fee.
+ */
+export const calculateForwardFee = (card: CourierRateCard, weightKg: number, originCity?: string, destinationCity?: string): number => {
+  if (!card.slabs) return card.forward;
+  return getSlabFee(card.slabs[getShippingZone(originCity, destinationCity)], weightKg);
+};
+
+/**
+ * Parcel weight: Shopify's line-item grams when present, otherwise the sum of the products' unit weights.
+ */
+export const getOrderWeight = (order: Order, products: Product[]): number => {
+  if (order.weight_kg && order.weight_kg > 0) return order.weight_kg;
+
+  const fromProducts = order.items.reduce((sum, item) => {
+    const product = products.find(p => p.id === item.product_id);
+    return sum + (product?.weight_kg || 0) * (item.quantity || 1);
+  }, 0);
+  return fromProducts > 0 ? fromProducts : DEFAULT_PARCEL_WEIGHT_KG;
+};
+
+/**
+ * Starting slabs for a courier that has only a flat rate: the flat fee everywhere, plus the same again per extra kg.
+ */
+export const createDefaultSlabs = (card: CourierRateCard): Record<ShippingZone, WeightSlabRate> => {
+  const rate = { upto_half_kg: card.forward, upto_1kg: card.forward, additional_kg: card.forward };
+  return { SAME_CITY: { ...rate }, SAME_ZONE: { ...rate }, CROSS_ZONE: { ...rate } };
+};
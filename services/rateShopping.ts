@@ -0,0 +1,99 @@
+import { CourierName, CourierRateCard, Order, OrderStatus, Product } from '../types';
+import { CourierStats, calculateCourierPerformance } from './calculator';
+import { calculateForwardFee, getOrderWeight } from './rateCards';
+import { normalizeCity } from './cities';
+
+export interface CourierQuote {
+  courier: CourierName;
+  forward_fee: number;
+  rto_fee: number;
+  delivery_rate: number; // % of closed orders delivered, for this city where there is enough history
+  rate_basis: 'CITY' | 'COURIER' | 'STORE';
+  expected_cost: number; // Forward fee plus the RTO fee weighted by return risk
+  expected_profit: number; // Expected COD margin after COGS and expected_cost
+}
+
+export interface DeliveryRateIndex {
+  byCity: Map<string, CourierStats[]>;
+  overall: CourierStats[];
+  store_rate: number; // All couriers combined, used when a courier has too little history
+}
+
+export interface RateShoppingContext {
+  rates: Record<CourierName, CourierRateCard>;
+  originCities: Partial<Record<CourierName, string>>;
+  products: Product[];
+  deliveryRates: DeliveryRateIndex;
+}
+
+// Closed (delivered + returned) orders needed before a delivery rate is trusted
+const MIN_SAMPLE = 5;
+
+const closedCount = (s: CourierStats) => s.delivered + s.rto;
+
+/**
+ * Historical delivery rates per courier, per destination city and overall.
+ */
+export const buildDeliveryRateIndex = (orders: Order[]): DeliveryRateIndex => {
+  const groups = new Map<string, Order[]>();
+  orders.forEach(o => {
+    const city = normalizeCity(o.customer_city);
+    if (!groups.has(city)) groups.set(city, []);
+    groups.get(city)!.push(o);
+  });
+
+  const byCity = new Map<string, CourierStats[]>();
+  groups.forEach((cityOrders, city) => byCity.set(city, calculateCourierPerformance(cityOrders)));
+
+  const delivered = orders.filter(o => o.status === OrderStatus.DELIVERED).length;
+  const returned = orders.filter(o => o.status === OrderStatus.RETURNED || o.status === OrderStatus.RTO_INITIATED).length;
+
+  return {
+    byCity,
+    overall: calculateCourierPerformance(orders),
+    store_rate: delivered + returned > 0 ? (delivered / (delivered + returned)) * 100 : 100
+  };
+};
+
+/**
+ * Delivery rate for a courier into a city, falling back to the courier's overall rate and then the store's.
+ */
+export const getDeliveryRate = (index: DeliveryRateIndex, courier: CourierName, city: string): Pick<CourierQuote, 'delivery_rate' | 'rate_basis'> => {
+  const cityStats = index.byCity.get(normalizeCity(city))?.find(s => s.name === courier);
+  if (cityStats && closedCount(cityStats) >= MIN_SAMPLE) return { delivery_rate: cityStats.delivery_rate, rate_basis: 'CITY' };
+
+  const overall = index.overall.find(s => s.name === courier);
+  if (overall && closedCount(overall) >= MIN_SAMPLE) return { delivery_rate: overall.delivery_rate, rate_basis: 'COURIER' };
+
+  return { delivery_rate: index.store_rate, rate_basis: 'STORE' };
+};
+
+/**
+ * Quotes each courier for an order, best expected profit first.
+ * A return costs the forward fee plus the RTO fee and earns nothing; the goods come back, so COGS only counts on delivery.
+ */
+export const quoteCouriers = (order: Order, couriers: CourierName[], context: RateShoppingContext): CourierQuote[] => {
+  const weightKg = getOrderWeight(order, context.products);
+  const cogs = order.items.reduce((sum, item) => sum + item.cogs_at_time_of_order * (item.quantity || 1), 0);
+
+  return couriers
+    .filter(courier => context.rates[courier])
+    .map(courier => {
+      const card = context.rates[courier];
+      const forward_fee = calculateForwardFee(card, weightKg, context.originCities[courier], order.customer_city);
+      const { delivery_rate, rate_basis } = getDeliveryRate(context.deliveryRates, courier, order.customer_city);
+      const p = delivery_rate / 100;
+      const expected_cost = forward_fee + (1 - p) * card.rto;
+
+      return {
+        courier,
+        forward_fee,
+        rto_fee: card.rto,
+        delivery_rate,
+        rate_basis,
+        expected_cost,
+        expected_profit: p * (order.cod_amount - cogs) - expected_cost
+      };
+    })
+    .sort((a, b) => b.expected_profit - a.expected_profit);
+};
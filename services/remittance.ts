@@ -0,0 +1,237 @@
+import { CourierName, CourierSettlement, Order, OrderStatus, PaymentStatus, RemittanceLine, RemittanceRecord } from '../types';
+
+export type RemittanceIssue = 'NOT_FOUND' | 'DUPLICATE' | 'ALREADY_REMITTED' | 'SHORT_PAID' | 'DEDUCTION_MISMATCH';
+
+export interface RemittanceMatch {
+  line: RemittanceLine;
+  order?: Order;
+  expected_charges: number; // From the order's rate card (forward + RTO)
+  issues: RemittanceIssue[];
+}
+
+export interface RemittanceReconciliation {
+  matches: RemittanceMatch[];
+  missing: Order[]; // Delivered and unpaid, but absent from the statement
+  totals: { cod: number; charges: number; tax: number; net: number };
+}
+
+export const REMITTANCE_ISSUE_LABELS: Record<RemittanceIssue, string> = {
+  NOT_FOUND: 'CN not in orders',
+  DUPLICATE: 'Duplicate line',
+  ALREADY_REMITTED: 'Paid in earlier statement',
+  SHORT_PAID: 'Short paid',
+  DEDUCTION_MISMATCH: 'Deduction ≠ rate card'
+};
+
+// Rupee rounding on courier sheets
+const TOLERANCE = 1;
+
+// Header fragments seen on PostEx, Trax, Leopards, TCS and M&P payment sheets
+const COLUMN_ALIASES = {
+  tracking_number: ['tracking', 'cn', 'consignment', 'awb'],
+  cod_amount: ['cod', 'collected', 'invoice', 'amount'],
+  charges: ['charge', 'fee', 'freight', 'shipping', 'service'],
+  tax: ['gst', 'tax', 'withholding', 'wht'],
+  net_amount: ['net', 'payable', 'remit']
+};
+
+/**
+ * Minimal RFC 4180 parser: quoted fields, escaped quotes and CRLF line endings.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+const toAmount = (value: string | undefined): number => {
+  const n = parseFloat(String(value || '').replace(/[^0-9.-]/g, ''));
+  return isNaN(n) ? 0 : Math.abs(n);
+};
+
+/**
+ * Turns the rows of a courier payment statement (CSV or the first sheet of an XLSX) into per-CN lines.
+ * Columns are recognised by header name; charges may be split over several columns and are summed.
+ */
+export const parseRemittanceRows = (rows: string[][]): RemittanceLine[] => {
+  if (rows.length < 2) throw new Error('The statement has no data rows.');
+
+  // Some sheets have a title block above the table; use the first row that names a CN column
+  const headerIndex = rows.findIndex(r => r.some(h => COLUMN_ALIASES.tracking_number.some(a => h.toLowerCase().includes(a))));
+  if (headerIndex === -1) throw new Error('Could not find a tracking number / CN column in the statement.');
+
+  const headers = rows[headerIndex].map(h => h.trim().toLowerCase());
+  const claimed = new Set<number>();
+  const findColumns = (aliases: string[], single: boolean): number[] => {
+    const found = headers
+      .map((h, i) => ({ h, i }))
+      .filter(({ h, i }) => !claimed.has(i) && !h.includes('date') && aliases.some(a => h.includes(a)))
+      .map(({ i }) => i);
+    const picked = single ? found.slice(0, 1) : found;
+    picked.forEach(i => claimed.add(i));
+    return picked;
+  };
+
+  // Order matters: "Net COD Payable" must be claimed as net before "cod" sees it
+  const [cnCol] = findColumns(COLUMN_ALIASES.tracking_number, true);
+  const [netCol] = findColumns(COLUMN_ALIASES.net_amount, true);
+  const taxCols = findColumns(COLUMN_ALIASES.tax, false);
+  const chargeCols = findColumns(COLUMN_ALIASES.charges, false);
+  const [codCol] = findColumns(COLUMN_ALIASES.cod_amount, true);
+
+  return rows.slice(headerIndex + 1)
+    .map(r => {
+      const cod_amount = codCol !== undefined ? toAmount(r[codCol]) : 0;
+      const tax = taxCols.reduce((sum, i) => sum + toAmount(r[i]), 0);
+      const net_amount = netCol !== undefined ? toAmount(r[netCol]) : 0;
+      const charges = chargeCols.length > 0
+        ? chargeCols.reduce((sum, i) => sum + toAmount(r[i]), 0)
+        : Math.max(0, cod_amount - tax - net_amount); // Sheets with only COD and net imply the deduction
+
+      return {
+        tracking_number: String(r[cnCol] || '').replace(/[^a-zA-Z0-9-]/g, ''),
+        cod_amount,
+        charges,
+        tax,
+        net_amount: netCol !== undefined ? net_amount : cod_amount - charges - tax
+      };
+    })
+    // Skips totals rows and blank CNs
+    .filter(l => /\d{4,}/.test(l.tracking_number));
+};
+
+export const parseRemittanceStatement = (text: string): RemittanceLine[] => parseRemittanceRows(parseCsv(text.replace(/^\uFEFF/, '')));
+
+/**
+ * Statement lines for CNs a courier API reports as paid. The API gives no amounts, so COD comes from the order
+ * and the deduction from the courier's invoiced charges. Until it bills them `charges` stays unset, so no
+ * estimate is recorded as a real deduction; the net is then estimated from the rate card.
+ */
+export const settlementsToRemittanceLines = (settlements: CourierSettlement[], orders: Order[]): RemittanceLine[] => {
+  const byCn = new Map(orders.map(o => [String(o.tracking_number).toLowerCase(), o]));
+
+  return settlements
+    .filter(s => s.payment_status === PaymentStatus.REMITTED)
+    .flatMap(s => {
+      const order = byCn.get(s.tracking_number.toLowerCase());
+      if (!order) return [];
+      const cod_amount = order.status === OrderStatus.DELIVERED ? order.cod_amount : 0;
+      const charges = order.actual_courier_charges;
+      return [{
+        tracking_number: s.tracking_number,
+        cod_amount,
+        charges,
+        tax: 0,
+        net_amount: cod_amount - (charges ?? order.courier_fee + order.rto_penalty),
+        statement_ref: s.settlement_reference,
+        settlement_date: s.settlement_date
+      }];
+    });
+};
+
+/**
+ * Matches statement lines to orders by tracking number and flags anything that does not add up.
+ */
+export const reconcileRemittance = (lines: RemittanceLine[], orders: Order[], courier: CourierName, records: RemittanceRecord[]): RemittanceReconciliation => {
+  const byCn = new Map(orders.filter(o => o.courier === courier && o.tracking_number).map(o => [o.tracking_number.toLowerCase(), o]));
+  const paidBefore = new Set(records.filter(r => r.courier === courier).map(r => r.tracking_number.toLowerCase()));
+  const seen = new Set<string>();
+
+  const matches: RemittanceMatch[] = lines.map(line => {
+    const cn = line.tracking_number.toLowerCase();
+    const order = byCn.get(cn);
+    const issues: RemittanceIssue[] = [];
+
+    if (seen.has(cn)) issues.push('DUPLICATE');
+    seen.add(cn);
+    if (paidBefore.has(cn)) issues.push('ALREADY_REMITTED');
+
+    const expected_charges = order ? order.courier_fee + order.rto_penalty : 0;
+
+    if (!order) {
+      issues.push('NOT_FOUND');
+    } else {
+      const expectedCod = order.status === OrderStatus.DELIVERED ? order.cod_amount : 0;
+      const shortOnCod = line.cod_amount < expectedCod - TOLERANCE;
+      const shortOnNet = line.charges !== undefined && line.net_amount < line.cod_amount - line.charges - line.tax - TOLERANCE;
+      if (shortOnCod || shortOnNet) issues.push('SHORT_PAID');
+      if (line.charges !== undefined && Math.abs(line.charges - expected_charges) > TOLERANCE) issues.push('DEDUCTION_MISMATCH');
+    }
+
+    return { line, order, expected_charges, issues };
+  });
+
+  // Only orders at least as old as the newest matched order; later deliveries belong to the next statement
+  const matchedDates = matches.filter(m => m.order).map(m => new Date(m.order!.created_at).getTime());
+  const cutoff = matchedDates.length > 0 ? Math.max(...matchedDates) : 0;
+  const missing = orders.filter(o =>
+    o.courier === courier &&
+    o.status === OrderStatus.DELIVERED &&
+    o.payment_status === PaymentStatus.UNPAID &&
+    !seen.has(String(o.tracking_number).toLowerCase()) &&
+    new Date(o.created_at).getTime() <= cutoff
+  );
+
+  const totals = lines.reduce((acc, l) => ({
+    cod: acc.cod + l.cod_amount,
+    charges: acc.charges + (l.charges ?? 0),
+    tax: acc.tax + l.tax,
+    net: acc.net + l.net_amount
+  }), { cod: 0, charges: 0, tax: 0, net: 0 });
+
+  return { matches, missing, totals };
+};
+
+/**
+ * Marks orders paid by a saved statement line as REMITTED and records the charges it deducted, when the line had them.
+ */
+export const applyRemittances = (orders: Order[], records: RemittanceRecord[]): Order[] => {
+  if (records.length === 0) return orders;
+  const byKey = new Map(records.map(r => [`${r.courier}|${r.tracking_number.toLowerCase()}`, r]));
+
+  return orders.map(o => {
+    const record = byKey.get(`${o.courier}|${String(o.tracking_number).toLowerCase()}`);
+    if (!record) return o;
+    return {
+      ...o,
+      payment_status: PaymentStatus.REMITTED,
+      settlement_date: record.settlement_date,
+      settlement_reference: record.statement_ref,
+      actual_courier_charges: record.charges ?? o.actual_courier_charges // What the courier actually deducted
+    };
+  });
+};
@@ -1,13 +1,14 @@
 
-import { SalesChannel, ShopifyOrder } from '../types';
+import { SalesChannel, ShopifyOrder } from '../types.js';
+import { isServer, proxyUrl } from './proxy.js';
 
 export class ShopifyAdapter {
   
   /**
-   * Fetches orders from the last 120 days.
+   * Fetches orders from the last 120 days, or only those updated since `updatedSince` within that window.
    * Handles pagination automatically to retrieve all records (beyond the 250 limit).
    */
-  async fetchOrders(config: SalesChannel): Promise<ShopifyOrder[]> {
+  async fetchOrders(config: SalesChannel, updatedSince?: string): Promise<ShopifyOrder[]> {
     if (!config.store_url || !config.access_token) return [];
     
     const accessToken = config.access_token.trim();
@@ -19,9 +20,10 @@ export class ShopifyAdapter {
     const historyWindow = new Date();
     historyWindow.setDate(historyWindow.getDate() - 120);
     
-    // Added 'shipping_address' to fields to correctly identify customer city
-    const fields = "id,name,created_at,financial_status,fulfillment_status,cancel_reason,total_price,line_items,customer,fulfillments,tags,shipping_address";
+    // Added 'shipping_address' to fields to correctly identify customer city (and consignee details for bookings)
+    const fields = "id,name,created_at,updated_at,financial_status,fulfillment_status,cancel_reason,total_price,line_items,customer,fulfillments,tags,shipping_address,phone";
     let nextUrl = `https://${domain}/admin/api/2023-10/orders.json?status=any&limit=250&created_at_min=${historyWindow.toISOString()}&fields=${fields}`;
+    if (updatedSince) nextUrl += `&updated_at_min=${new Date(updatedSince).toISOString()}`;
 
     let allOrders: ShopifyOrder[] = [];
     let hasNext = true;
@@ -100,9 +102,9 @@ export class ShopifyAdapter {
   }
 
   private async fetchWithProxy(targetUrl: string, token: string): Promise<{ json: any, linkHeader: string | null }> {
-      // List of proxies to try in order. 
-      const proxies = [
-          `/api/proxy?url=${encodeURIComponent(targetUrl)}`,
+      // List of proxies to try in order. The server calls Shopify directly and nothing else.
+      const proxies = isServer() ? [targetUrl] : [
+          proxyUrl(targetUrl),
           `https://corsproxy.io/?url=${encodeURIComponent(targetUrl)}`,
           `https://api.allorigins.win/raw?url=${encodeURIComponent(targetUrl)}`,
           `https://thingproxy.freeboard.io/fetch/${targetUrl}`
@@ -110,9 +112,9 @@ export class ShopifyAdapter {
 
       let lastError: Error | null = null;
 
-      for (const proxyUrl of proxies) {
+      for (const fetchUrl of proxies) {
           try {
-              const res = await fetch(proxyUrl, {
+              const res = await fetch(fetchUrl, {
                   method: 'GET',
                   headers: {
                       'X-Shopify-Access-Token': token,
@@ -175,7 +177,7 @@ export class ShopifyAdapter {
                   id: 999000 + i, title: 'Demo Product', quantity: 1, sku: 'DEMO-001', price: '2500.00', variant_id: 1, product_id: 101
               }],
               fulfillments: [],
-              shipping_address: { city: 'Lahore', province: 'Punjab' }
+              shipping_address: { name: 'Demo Customer', address1: 'House 12, Street 4, Model Town', phone: '0300 1234567', city: 'Lahore', province: 'Punjab' }
           });
       }
       return orders;
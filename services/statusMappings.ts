@@ -0,0 +1,86 @@
+import { CourierName, Order, OrderStatus, StatusMapping } from '../types';
+import { getCourierAdapter, isKnownCourier } from './couriers/registry';
+
+export type StatusMappingIndex = Map<string, OrderStatus>;
+
+export interface UnmappedStatus {
+  courier: CourierName;
+  raw_status: string; // Normalised
+  display: string; // As the courier wrote it (first seen)
+  count: number;
+  suggested: OrderStatus; // From the adapter's built-in mapStatus
+}
+
+// Statuses we set ourselves rather than receiving from a courier
+const INTERNAL_STATUSES = ['order placed', 'waiting for fulfillment', 'booked', 'booked / pending scan', 'booked / no scan', 'handed over to courier'];
+
+export const normalizeRawStatus = (raw: string | null | undefined): string => {
+  return String(raw || '').toLowerCase().replace(/\s+/g, ' ').trim();
+};
+
+const key = (courier: string, raw: string) => `${courier}|${normalizeRawStatus(raw)}`;
+
+export const buildStatusMappingIndex = (mappings: StatusMapping[]): StatusMappingIndex => {
+  return new Map(mappings.map(m => [key(m.courier, m.raw_status), m.status]));
+};
+
+/**
+ * The adapter's known raw statuses with its built-in classification, used to seed the mapping table
+ * when a courier is first connected so the user starts from editable rows rather than an empty table.
+ */
+export const getDefaultStatusMappings = (courier: CourierName): StatusMapping[] => {
+  const adapter = getCourierAdapter(courier);
+  const rawStatuses = new Set(adapter.knownStatuses.map(normalizeRawStatus).filter(raw => raw && !INTERNAL_STATUSES.includes(raw)));
+  return Array.from(rawStatuses).map(raw_status => ({ courier, raw_status, status: adapter.mapStatus(raw_status) }));
+};
+
+/**
+ * Returns the user's mapping for a raw status if there is one, otherwise the adapter's own classification.
+ */
+export const resolveMappedStatus = (courier: CourierName, raw: string | undefined, fallback: OrderStatus, index: StatusMappingIndex): OrderStatus => {
+  if (!raw) return fallback;
+  return index.get(key(courier, raw)) ?? fallback;
+};
+
+/**
+ * Re-classifies orders whose raw courier status has a user mapping. Returns checked in at the warehouse are final.
+ */
+export const applyStatusMappings = (orders: Order[], index: StatusMappingIndex): Order[] => {
+  if (index.size === 0) return orders;
+  return orders.map(o => {
+    if (o.rto_received_at) return o;
+    const status = resolveMappedStatus(o.courier, o.courier_raw_status, o.status, index);
+    return status === o.status ? o : { ...o, status };
+  });
+};
+
+/**
+ * Lists every raw courier status seen on orders that has no user mapping yet, most frequent first.
+ */
+export const getUnmappedStatuses = (orders: Order[], index: StatusMappingIndex): UnmappedStatus[] => {
+  const seen = new Map<string, UnmappedStatus>();
+
+  orders.forEach(o => {
+    const normalized = normalizeRawStatus(o.courier_raw_status);
+    if (!normalized || INTERNAL_STATUSES.includes(normalized) || !isKnownCourier(o.courier)) return;
+
+    const k = key(o.courier, normalized);
+    if (index.has(k)) return;
+
+    const existing = seen.get(k);
+    if (existing) {
+      existing.count++;
+      return;
+    }
+
+    seen.set(k, {
+      courier: o.courier,
+      raw_status: normalized,
+      display: String(o.courier_raw_status).trim(),
+      count: 1,
+      suggested: getCourierAdapter(o.courier).mapStatus(String(o.courier_raw_status))
+    });
+  });
+
+  return Array.from(seen.values()).sort((a, b) => b.count - a.count);
+};
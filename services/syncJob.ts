@@ -0,0 +1,236 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { AdSpend, CampaignMapping, IntegrationConfig, MarketingConfig, SalesChannel, ShopifyOrder, SyncRun, SyncTrigger } from '../types.js';
+import { COURIER_RATES, USD_TO_PKR_RATE } from '../constants.js';
+import { buildCourierConfigMap } from './couriers/registry.js';
+import { ShopifyAdapter } from './shopify.js';
+import { FacebookService } from './facebook.js';
+import { TikTokService } from './tiktok.js';
+import { applyCourierSettlements, mergeStoredOrders, syncCourierOrders } from './orderSync.js';
+import { deleteOrders, loadOrderAppFields, loadOrders, loadRemittedTrackingNumbers, loadShopifyOrders, saveOrders, saveShopifyOrders } from './orderStore.js';
+
+// Same window ShopifyAdapter.fetchOrders covers
+export const SHOPIFY_HISTORY_DAYS = 120;
+
+// Platforms keep revising the last few days' spend as conversions attribute, so every run refreshes them
+const AD_SYNC_DAYS = 7;
+
+// api/sync's maxDuration is 5 minutes, so a RUNNING row older than this belongs to an invocation that was killed
+const STALE_RUN_MINUTES = 6;
+
+// How often the schedule syncs each user
+const SYNC_INTERVAL_HOURS = 6;
+
+// Runs older than this are not looked at when ordering users; anyone without one counts as never synced
+const SYNC_HISTORY_DAYS = 2;
+
+// PostgREST's default max-rows; larger reads are paged
+const RUNS_PAGE_SIZE = 1000;
+
+// Demo credentials return generated data, which must never be written to a real account
+const isDemoToken = (token: string | null | undefined): boolean => String(token || '').startsWith('demo_');
+
+const toDateString = (d: Date): string => d.toISOString().split('T')[0];
+
+/**
+ * Replaces the recent ad spend of each active ad platform, mapped to products through campaign mappings.
+ * Returns the number of rows written; platform failures are added to `errors`.
+ */
+const syncAdSpend = async (client: SupabaseClient, userId: string, errors: string[]): Promise<number> => {
+  const { data: configData } = await client.from('marketing_configs').select('*').eq('user_id', userId).eq('is_active', true);
+  const configs = ((configData || []) as MarketingConfig[]).filter(c => !isDemoToken(c.access_token) && c.ad_account_ids?.length > 0);
+  if (configs.length === 0) return 0;
+
+  const { data: mappingData } = await client.from('campaign_mappings').select('*').eq('user_id', userId);
+  const mappings = (mappingData || []) as CampaignMapping[];
+
+  const endDate = new Date();
+  const startDate = new Date();
+  startDate.setDate(startDate.getDate() - AD_SYNC_DAYS);
+  const start = toDateString(startDate);
+  const end = toDateString(endDate);
+
+  let written = 0;
+  for (const config of configs) {
+    try {
+      let fetched: AdSpend[];
+      if (config.platform === 'Facebook') fetched = await new FacebookService().fetchInsights(config, start, end);
+      else if (config.platform === 'TikTok') fetched = await new TikTokService().fetchInsights(config, start, end, USD_TO_PKR_RATE);
+      else continue;
+
+      const { error: deleteError } = await client.from('ad_spend')
+        .delete()
+        .eq('user_id', userId)
+        .eq('platform', config.platform)
+        .gte('date', start)
+        .lte('date', end);
+      if (deleteError) throw new Error(deleteError.message);
+
+      if (fetched.length > 0) {
+        const payload = fetched.map(a => ({
+          user_id: userId,
+          date: a.date,
+          platform: a.platform,
+          amount_spent: a.amount_spent,
+          product_id: mappings.find(m => m.campaign_id === a.campaign_id)?.product_id || null,
+          campaign_id: a.campaign_id,
+          campaign_name: a.campaign_name,
+          purchases: a.purchases
+        }));
+        const { error: insertError } = await client.from('ad_spend').insert(payload);
+        if (insertError) throw new Error(insertError.message);
+      }
+      written += fetched.length;
+    } catch (e: any) {
+      errors.push(`${config.platform} Ads Failed: ` + e.message);
+    }
+  }
+  return written;
+};
+
+export interface ShopifySyncResult {
+  orders: ShopifyOrder[]; // The full stored window with changes applied
+  changed: number; // Orders Shopify returned this time
+  full: boolean;
+}
+
+/**
+ * Brings the stored Shopify orders up to date. Only orders updated since the channel's watermark (last_sync_at) are
+ * fetched; a full resync, or an empty store, re-fetches the whole window. The watermark then moves to the newest
+ * updated_at seen, stored in UTC so it survives query-string encoding through the proxy.
+ */
+export const syncShopifyOrders = async (client: SupabaseClient, userId: string, channel: SalesChannel, fullResync = false): Promise<ShopifySyncResult> => {
+  const windowStart = new Date();
+  windowStart.setDate(windowStart.getDate() - SHOPIFY_HISTORY_DAYS);
+  const stored = fullResync || !channel.last_sync_at ? [] : await loadShopifyOrders(client, userId, windowStart.toISOString());
+  const since = stored.length > 0 ? channel.last_sync_at : undefined;
+
+  const fetched = await new ShopifyAdapter().fetchOrders(channel, since);
+  await saveShopifyOrders(client, userId, fetched);
+
+  const newest = fetched.reduce((max, s) => Math.max(max, s.updated_at ? new Date(s.updated_at).getTime() : 0), since ? new Date(since).getTime() : 0);
+  if (newest > 0) {
+    const { error } = await client.from('sales_channels').update({ last_sync_at: new Date(newest).toISOString() }).eq('id', channel.id);
+    if (error) throw new Error(`Saving the Shopify sync cursor failed: ${error.message}`);
+  }
+
+  const byId = new Map(stored.map(s => [s.id, s]));
+  fetched.forEach(s => byId.set(s.id, s));
+  return { orders: Array.from(byId.values()), changed: fetched.length, full: !since };
+};
+
+/**
+ * Users with at least one connected store or active courier, i.e. everyone the scheduled sync should visit.
+ */
+const getSyncUserIds = async (client: SupabaseClient): Promise<string[]> => {
+  const [{ data: channels }, { data: couriers }] = await Promise.all([
+    client.from('sales_channels').select('user_id').not('access_token', 'is', null),
+    client.from('integration_configs').select('user_id').eq('is_active', true)
+  ]);
+  return Array.from(new Set([...(channels || []), ...(couriers || [])].map((r: any) => String(r.user_id))));
+};
+
+/**
+ * Up to `limit` users whose last run started more than SYNC_INTERVAL_HOURS ago, longest-waiting (or never synced) first.
+ * Each scheduled call takes the next batch, so every user is reached even when one call cannot sync them all.
+ */
+export const getDueSyncUserIds = async (client: SupabaseClient, limit: number): Promise<string[]> => {
+  const userIds = await getSyncUserIds(client);
+  const historyStart = new Date(Date.now() - SYNC_HISTORY_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const lastRun = new Map<string, number>();
+  for (let from = 0; ; from += RUNS_PAGE_SIZE) {
+    const { data: runs, error } = await client.from('sync_runs')
+      .select('id, user_id, started_at')
+      .gte('started_at', historyStart)
+      .order('id')
+      .range(from, from + RUNS_PAGE_SIZE - 1);
+    if (error) throw new Error(`Loading sync runs failed: ${error.message}`);
+    (runs || []).forEach((r: any) => lastRun.set(r.user_id, Math.max(lastRun.get(r.user_id) || 0, new Date(r.started_at).getTime())));
+    if (!runs || runs.length < RUNS_PAGE_SIZE) break;
+  }
+
+  const dueBefore = Date.now() - SYNC_INTERVAL_HOURS * 60 * 60 * 1000;
+  return userIds
+    .filter(id => (lastRun.get(id) || 0) < dueBefore)
+    .sort((a, b) => (lastRun.get(a) || 0) - (lastRun.get(b) || 0))
+    .slice(0, limit);
+};
+
+/**
+ * Pulls one user's Shopify orders, courier orders and ad spend into Supabase and records the run in sync_runs.
+ * Source failures leave the run PARTIAL; only storage errors fail it. If a run is already in progress it is returned instead.
+ */
+export const runUserSync = async (client: SupabaseClient, userId: string, trigger: SyncTrigger, fullResync = false): Promise<SyncRun> => {
+  const staleBefore = new Date(Date.now() - STALE_RUN_MINUTES * 60 * 1000).toISOString();
+  await client.from('sync_runs')
+    .update({ status: 'FAILED', finished_at: new Date().toISOString(), errors: ['Timed out before finishing'] })
+    .eq('user_id', userId)
+    .eq('status', 'RUNNING')
+    .lt('started_at', staleBefore);
+
+  const { data: running } = await client.from('sync_runs')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('status', 'RUNNING')
+    .gte('started_at', staleBefore)
+    .limit(1);
+  if (running && running.length > 0) return running[0] as SyncRun;
+
+  const run: SyncRun = { trigger, status: 'RUNNING', started_at: new Date().toISOString(), shopify_orders: 0, courier_orders: 0, ad_rows: 0, full_resync: fullResync, errors: [] };
+  const { data: inserted, error: startError } = await client.from('sync_runs').insert({ user_id: userId, ...run }).select('id').single();
+  if (startError) throw new Error(`Could not start sync: ${startError.message}`);
+  run.id = inserted.id;
+
+  try {
+    const { data: settingsData } = await client.from('app_settings').select('courier_rates').eq('user_id', userId).maybeSingle();
+    const rates = settingsData?.courier_rates || COURIER_RATES;
+
+    const { data: salesData } = await client.from('sales_channels').select('*').eq('user_id', userId).eq('platform', 'Shopify').limit(1);
+    const shopifyConfig = salesData?.[0] as SalesChannel | undefined;
+
+    const { data: courierData } = await client.from('integration_configs').select('*').eq('user_id', userId).eq('is_active', true);
+    const courierConfigs = buildCourierConfigMap(((courierData || []) as IntegrationConfig[]).filter(c => !isDemoToken(c.api_token)));
+
+    let shopifyOrders: ShopifyOrder[] = [];
+    if (shopifyConfig?.access_token && !isDemoToken(shopifyConfig.access_token)) {
+      try {
+        const shopify = await syncShopifyOrders(client, userId, shopifyConfig, fullResync);
+        shopifyOrders = shopify.orders;
+        run.shopify_orders = shopify.changed;
+        run.full_resync = shopify.full;
+      } catch (e: any) {
+        run.errors.push('Shopify Sync Failed: ' + e.message);
+      }
+    }
+
+    const stored = await loadOrders(client, userId);
+    const synced = await syncCourierOrders(shopifyOrders, courierConfigs, rates, stored);
+    run.errors.push(...synced.errors);
+    const merged = mergeStoredOrders(stored, synced.orders);
+    const remittedCns = await loadRemittedTrackingNumbers(client, userId);
+    const settled = await applyCourierSettlements(merged.refreshed, courierConfigs, remittedCns, run.errors);
+    // Bookings, handovers, NDR advice or RTO check-ins saved in the app while this run was fetching win over the copy read at the start
+    await saveOrders(client, userId, mergeStoredOrders(await loadOrderAppFields(client, userId), settled).refreshed);
+    await deleteOrders(client, userId, merged.superseded);
+    run.courier_orders = synced.orders.length;
+
+    run.ad_rows = await syncAdSpend(client, userId, run.errors);
+    run.status = run.errors.length > 0 ? 'PARTIAL' : 'SUCCESS';
+  } catch (e: any) {
+    console.error(`Sync failed for ${userId}:`, e);
+    run.errors.push(e.message || 'Sync failed');
+    run.status = 'FAILED';
+  }
+
+  run.finished_at = new Date().toISOString();
+  await client.from('sync_runs').update({
+    status: run.status,
+    finished_at: run.finished_at,
+    shopify_orders: run.shopify_orders,
+    courier_orders: run.courier_orders,
+    ad_rows: run.ad_rows,
+    full_resync: run.full_resync,
+    errors: run.errors
+  }).eq('id', run.id);
+
+  return run;
+};
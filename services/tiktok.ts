@@ -1,5 +1,5 @@
 
-import { MarketingConfig, AdSpend } from '../types';
+import { MarketingConfig, AdSpend } from '../types.js';
 
 export class TikTokService {
     private readonly BASE_URL = 'https://business-api.tiktok.com/open_api/v1.3';
@@ -0,0 +1,112 @@
+// Zip record signatures (little-endian)
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+
+interface ZipEntry {
+  method: number; // 0 = stored, 8 = deflate
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+const readZipEntries = (view: DataView): Map<string, ZipEntry> => {
+  // The end record sits in the last 22 bytes plus an optional comment of up to 64 KB
+  let eocd = -1;
+  for (let i = view.byteLength - 22; i >= Math.max(0, view.byteLength - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) throw new Error('The file is not a valid .xlsx workbook.');
+
+  const count = view.getUint16(eocd + 10, true);
+  const decoder = new TextDecoder();
+  const entries = new Map<string, ZipEntry>();
+  let offset = view.getUint32(eocd + 16, true);
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) throw new Error('The .xlsx workbook is damaged.');
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(new Uint8Array(view.buffer, view.byteOffset + offset + 46, nameLength));
+    entries.set(name, {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true)
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+};
+
+const readZipText = async (view: DataView, entries: Map<string, ZipEntry>, name: string): Promise<string | null> => {
+  const entry = entries.get(name);
+  if (!entry) return null;
+
+  // Local header lengths can differ from the central directory's, so they are read again here
+  const local = entry.localHeaderOffset;
+  const start = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true);
+  const data = new Uint8Array(view.buffer, view.byteOffset + start, entry.compressedSize);
+
+  if (entry.method === 0) return new TextDecoder().decode(data);
+  if (entry.method !== 8) throw new Error(`Unsupported compression in ${name}.`);
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).text();
+};
+
+const parseXml = (text: string): Document => new DOMParser().parseFromString(text, 'application/xml');
+
+// Namespace-agnostic: some writers prefix SpreadsheetML elements (x:c, x:row)
+const elements = (parent: Document | Element, localName: string): Element[] =>
+  Array.from(parent.getElementsByTagNameNS('*', localName));
+
+const textOf = (el: Element): string => elements(el, 't').map(t => t.textContent || '').join('');
+
+// "AB12" -> 27
+const columnIndex = (ref: string): number => {
+  const letters = ref.replace(/[^A-Z]/gi, '').toUpperCase();
+  return letters.split('').reduce((n, ch) => n * 26 + ch.charCodeAt(0) - 64, 0) - 1;
+};
+
+/**
+ * Minimal XLSX reader: the first worksheet's cells as text, in the same shape as parseCsv.
+ * Formulas come back as their cached values; dates stay as Excel serial numbers.
+ */
+export const readXlsxRows = async (buffer: ArrayBuffer): Promise<string[][]> => {
+  const view = new DataView(buffer);
+  const entries = readZipEntries(view);
+
+  const workbook = await readZipText(view, entries, 'xl/workbook.xml');
+  if (!workbook) throw new Error('The file is not a valid .xlsx workbook.');
+  const firstSheet = elements(parseXml(workbook), 'sheet')[0];
+  const relId = firstSheet?.getAttribute('r:id') || firstSheet?.getAttributeNS('http://schemas.openxmlformats.org/officeDocument/2006/relationships', 'id');
+
+  let sheetPath = 'xl/worksheets/sheet1.xml';
+  const rels = await readZipText(view, entries, 'xl/_rels/workbook.xml.rels');
+  const target = rels && relId ? elements(parseXml(rels), 'Relationship').find(r => r.getAttribute('Id') === relId)?.getAttribute('Target') : null;
+  if (target) sheetPath = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+
+  const sheet = await readZipText(view, entries, sheetPath);
+  if (!sheet) throw new Error('The workbook has no worksheet.');
+
+  const sharedXml = await readZipText(view, entries, 'xl/sharedStrings.xml');
+  const shared = sharedXml ? elements(parseXml(sharedXml), 'si').map(textOf) : [];
+
+  const rows = elements(parseXml(sheet), 'row').map(row => {
+    const cells: string[] = [];
+    elements(row, 'c').forEach((c, i) => {
+      const ref = c.getAttribute('r');
+      const col = ref ? columnIndex(ref) : i;
+      const type = c.getAttribute('t');
+      const value = elements(c, 'v')[0]?.textContent || '';
+
+      if (type === 's') cells[col] = shared[Number(value)] || '';
+      else if (type === 'inlineStr') cells[col] = textOf(c);
+      else cells[col] = value;
+    });
+    return Array.from(cells, cell => cell || '');
+  });
+
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
@@ -34,6 +34,7 @@ create table if not exists integration_configs (
 alter table integration_configs add column if not exists username text;
 alter table integration_configs add column if not exists password text;
 alter table integration_configs add column if not exists merchant_id text;
+alter table integration_configs add column if not exists origin_city text; -- Pickup city for bookings (TCS/Daewoo)
 
 -- Fix Permissions for integration_configs
 alter table integration_configs enable row level security;
@@ -87,3 +88,167 @@ create policy "Users can manage own marketing configs" on marketing_configs for
 alter table campaign_mappings enable row level security;
 drop policy if exists "Users can manage own campaign mappings" on campaign_mappings;
 create policy "Users can manage own campaign mappings" on campaign_mappings for all using ( auth.uid() = user_id );
+
+-- 9. Courier Status Mappings (raw courier wording -> OrderStatus, per account)
+create table if not exists courier_status_mappings (
+  id uuid default uuid_generate_v4() primary key,
+  user_id uuid references auth.users not null,
+  courier text not null,
+  raw_status text not null,
+  status text not null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  unique (user_id, courier, raw_status)
+);
+
+alter table courier_status_mappings enable row level security;
+drop policy if exists "Users can manage own status mappings" on courier_status_mappings;
+create policy "Users can manage own status mappings" on courier_status_mappings for all using ( auth.uid() = user_id );
+
+-- 10. Courier Remittances (statement lines accepted as paid)
+create table if not exists courier_remittances (
+  id uuid default uuid_generate_v4() primary key,
+  user_id uuid references auth.users not null,
+  courier text not null,
+  tracking_number text not null,
+  statement_ref text not null,
+  settlement_date timestamp with time zone not null,
+  cod_amount numeric default 0,
+  charges numeric default 0,
+  net_amount numeric default 0,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  unique (user_id, courier, tracking_number)
+);
+
+alter table courier_remittances enable row level security;
+drop policy if exists "Users can manage own remittances" on courier_remittances;
+create policy "Users can manage own remittances" on courier_remittances for all using ( auth.uid() = user_id );
+
+-- 11. Weight & zone rate cards (slabs live inside app_settings.courier_rates)
+alter table products add column if not exists weight_kg numeric;
+alter table app_settings add column if not exists origin_city text; -- Default dispatch city for zone pricing
+
+-- 12. Delivery SLA target (days from dispatch to delivery)
+alter table app_settings add column if not exists sla_days numeric default 4;
+
+-- 13. Courier Claims (lost parcels and returns never received)
+create table if not exists courier_claims (
+  id uuid default uuid_generate_v4() primary key,
+  user_id uuid references auth.users not null,
+  courier text not null,
+  tracking_number text not null,
+  order_id text not null,
+  reason text not null,
+  status text not null default 'OPEN',
+  claim_amount numeric default 0,
+  settled_amount numeric,
+  reference text,
+  notes text,
+  raised_at timestamp with time zone not null,
+  resolved_at timestamp with time zone,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  unique (user_id, courier, tracking_number)
+);
+
+alter table courier_claims enable row level security;
+drop policy if exists "Users can manage own claims" on courier_claims;
+create policy "Users can manage own claims" on courier_claims for all using ( auth.uid() = user_id );
+
+-- 14. Background sync (api/sync, run by Vercel Cron and the "Sync now" button)
+create table if not exists sync_runs (
+  id uuid default uuid_generate_v4() primary key,
+  user_id uuid references auth.users not null,
+  trigger text not null,
+  status text not null,
+  started_at timestamp with time zone not null,
+  finished_at timestamp with time zone,
+  shopify_orders integer default 0,
+  courier_orders integer default 0,
+  ad_rows integer default 0,
+  errors text[] default '{}'
+);
+create index if not exists sync_runs_user_started_idx on sync_runs (user_id, started_at desc);
+
+alter table sync_runs enable row level security;
+drop policy if exists "Users can view own sync runs" on sync_runs;
+create policy "Users can view own sync runs" on sync_runs for select using ( auth.uid() = user_id );
+
+-- Shopify orders as received (payload is the REST order object)
+create table if not exists shopify_orders (
+  user_id uuid references auth.users not null,
+  id bigint not null,
+  name text,
+  created_at timestamp with time zone not null,
+  payload jsonb not null,
+  primary key (user_id, id)
+);
+
+alter table shopify_orders enable row level security;
+drop policy if exists "Users can manage own shopify orders" on shopify_orders;
+create policy "Users can manage own shopify orders" on shopify_orders for all using ( auth.uid() = user_id );
+
+-- 15. Courier orders (costs are not stored; they are recalculated from app_settings on load)
+create table if not exists orders (
+  user_id uuid references auth.users not null,
+  id text not null,
+  shopify_order_number text,
+  created_at timestamp with time zone not null,
+  customer_city text,
+  courier text not null,
+  tracking_number text,
+  status text not null,
+  payment_status text not null,
+  cod_amount numeric default 0,
+  shipping_fee_paid_by_customer numeric default 0,
+  actual_courier_charges numeric,
+  data_source text,
+  courier_raw_status text,
+  customer_name text,
+  customer_phone text,
+  customer_address text,
+  item_description text,
+  weight_kg numeric,
+  booked_at timestamp with time zone,
+  tracking_history jsonb,
+  handed_over_at timestamp with time zone,
+  ndr_action text,
+  ndr_action_at timestamp with time zone,
+  ndr_remarks text,
+  rto_received_at timestamp with time zone,
+  synced_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  primary key (user_id, id)
+);
+create index if not exists orders_user_created_idx on orders (user_id, created_at desc);
+
+alter table orders enable row level security;
+drop policy if exists "Users can manage own orders" on orders;
+create policy "Users can manage own orders" on orders for all using ( auth.uid() = user_id );
+
+create table if not exists order_items (
+  id uuid default uuid_generate_v4() primary key,
+  user_id uuid references auth.users not null,
+  order_id text not null,
+  product_id text,
+  product_name text not null,
+  quantity integer default 1,
+  sale_price numeric default 0,
+  sku text,
+  variant_fingerprint text,
+  foreign key (user_id, order_id) references orders (user_id, id) on delete cascade
+);
+create index if not exists order_items_order_idx on order_items (user_id, order_id);
+
+alter table order_items enable row level security;
+drop policy if exists "Users can manage own order items" on order_items;
+create policy "Users can manage own order items" on order_items for all using ( auth.uid() = user_id );
+
+-- 16. Incremental Shopify sync (sales_channels.last_sync_at is the updated_at watermark)
+alter table sync_runs add column if not exists full_resync boolean default false;
+
+-- 17. Courier payouts on stored orders (PostEx payment-status lookups are only repeated while unpaid)
+alter table orders add column if not exists settlement_date timestamp with time zone;
+alter table orders add column if not exists settlement_reference text;
+
+-- 18. Daewoo origin terminal in its own column (it used to be kept in merchant_id)
+alter table integration_configs add column if not exists origin_terminal_id text;
+update integration_configs set origin_terminal_id = merchant_id, merchant_id = null
+  where provider_id = 'Daewoo' and origin_terminal_id is null and merchant_id is not null;
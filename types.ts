@@ -15,6 +15,7 @@ export enum OrderStatus {
   PENDING = 'PENDING',
   BOOKED = 'BOOKED', // Label Created / Ready to Ship
   IN_TRANSIT = 'IN_TRANSIT', // Picked up by courier
+  DELIVERY_ATTEMPTED = 'DELIVERY_ATTEMPTED', // Failed delivery attempt, awaiting shipper advice (NDR)
   DELIVERED = 'DELIVERED', // Successfully collected COD
   RTO_INITIATED = 'RTO_INITIATED',
   RETURNED = 'RETURNED', // RTO delivered back to seller (Loss)
@@ -46,6 +47,8 @@ export interface Product {
 
   // NEW: Manual Mapping / Aliases
   aliases?: string[]; // Array of alternate titles (e.g. from Shopify)
+
+  weight_kg?: number; // Packed weight of one unit, used when Shopify has no grams
 }
 
 export interface OrderItem {
@@ -73,11 +76,12 @@ export interface Order {
   shipping_fee_paid_by_customer: number; 
   
   // Costs
-  courier_fee: number; // Actual fee charged by courier
+  courier_fee: number; // Rate-card estimate of the forward fee
   packaging_cost: number;
   overhead_cost: number; // New: Fixed operational cost per dispatched order
   tax_amount: number; // New: % Tax on Delivered Sales
-  rto_penalty: number; // Fee charged if returned
+  rto_penalty: number; // Rate-card estimate of the return fee
+  actual_courier_charges?: number; // Invoiced forward + return charges for this CN, when the courier reports them
   
   items: OrderItem[];
 
@@ -86,6 +90,23 @@ export interface Order {
   
   // NEW: Store the exact text from Courier (e.g. "Arrived at Station")
   courier_raw_status?: string;
+
+  // Consignee details for bookings (populated from Shopify shipping address)
+  customer_name?: string;
+  customer_phone?: string;
+  customer_address?: string;
+  item_description?: string;
+  weight_kg?: number; // Parcel weight from Shopify line item grams
+  booked_at?: string; // When the CN was generated
+  destination_terminal_id?: string; // Chosen at booking time for couriers that deliver to terminals (Daewoo)
+  handed_over_at?: string; // When the parcel was handed to the rider (load sheet sign-off)
+  tracking_history?: TrackingCheckpoint[]; // Newest first, from the last live track
+  settlement_date?: string; // When the courier paid out this order's COD
+  settlement_reference?: string; // Courier's payment/CPR reference
+  ndr_action?: NdrAction; // Shipper advice given on the latest failed attempt
+  ndr_action_at?: string;
+  ndr_remarks?: string;
+  rto_received_at?: string; // When the returned parcel was checked back into the warehouse
 }
 
 // --- NEW: Shopify Order Interfaces ---
@@ -100,6 +121,7 @@ export interface ShopifyLineItem {
   // Added for better name resolution
   name?: string; 
   variant_title?: string;
+  grams?: number;
 }
 
 export interface ShopifyFulfillment {
@@ -116,6 +138,7 @@ export interface ShopifyOrder {
   id: number;
   name: string; // e.g. #1024
   created_at: string;
+  updated_at?: string;
   financial_status: string; // paid, pending, voided
   fulfillment_status: string | null; // fulfilled, null, partial
   cancel_reason: string | null; // customer, inventory, fraud
@@ -123,11 +146,20 @@ export interface ShopifyOrder {
   line_items: ShopifyLineItem[];
   fulfillments?: ShopifyFulfillment[]; // Added for Tracking Sync
   tags?: string; // Comma separated tags
+  phone?: string | null;
   customer?: {
       first_name: string;
+      last_name?: string;
+      phone?: string | null;
       city: string;
   };
   shipping_address?: {
+      name?: string;
+      first_name?: string;
+      last_name?: string;
+      address1?: string;
+      address2?: string | null;
+      phone?: string | null;
       city: string;
       province?: string;
       country?: string;
@@ -201,7 +233,7 @@ export interface SalesChannel {
   access_token: string;
   scope?: string;
   is_active: boolean;
-  last_sync_at?: string;
+  last_sync_at?: string; // Newest Shopify updated_at already stored; incremental syncs fetch from here
 }
 
 export interface CourierConfig {
@@ -213,6 +245,8 @@ export interface CourierConfig {
   password?: string;
   is_active: boolean;
   base_url?: string; // Optional override
+  origin_city?: string; // Pickup/origin city used when creating bookings
+  origin_terminal_id?: string; // Pickup terminal for couriers that book terminal to terminal (Daewoo)
 }
 
 export interface IntegrationConfig {
@@ -223,12 +257,141 @@ export interface IntegrationConfig {
   merchant_id?: string;
   username?: string;
   password?: string;
+  origin_city?: string; // Pickup/origin city used when creating bookings
+  origin_terminal_id?: string; // Pickup terminal for couriers that book terminal to terminal (Daewoo)
+}
+
+// User-confirmed classification of a courier's raw status text (courier_status_mappings table)
+export interface StatusMapping {
+  id?: string;
+  courier: CourierName;
+  raw_status: string; // Normalised: lower-case, single spaces
+  status: OrderStatus;
+}
+
+// One CN line from a courier's COD payment statement
+export interface RemittanceLine {
+  tracking_number: string;
+  cod_amount: number; // COD collected, as reported by the courier
+  charges?: number; // Delivery + return charges deducted; unset when the courier reported only the payout
+  tax: number; // GST / withholding deducted
+  net_amount: number; // Paid out for this CN
+  statement_ref?: string; // Per-line payment reference (CPR) when fetched from the courier API
+  settlement_date?: string;
+}
+
+// Statement line accepted as paid (courier_remittances table)
+export interface RemittanceRecord {
+  id?: string;
+  courier: CourierName;
+  tracking_number: string;
+  statement_ref: string;
+  settlement_date: string;
+  cod_amount: number;
+  charges?: number; // Unset when the line came from a payout API without invoiced charges
+  net_amount: number;
 }
 
+export type ClaimReason = 'LOST' | 'RTO_NOT_RECEIVED' | 'DAMAGED';
+export type ClaimStatus = 'OPEN' | 'APPROVED' | 'REJECTED' | 'SETTLED';
+
+// Lost / damaged parcel claim raised with the courier (courier_claims table)
+export interface CourierClaim {
+  id?: string;
+  courier: CourierName;
+  tracking_number: string;
+  order_id: string;
+  reason: ClaimReason;
+  status: ClaimStatus;
+  claim_amount: number;
+  settled_amount?: number; // What the courier actually paid or credited
+  reference?: string; // Courier's claim / ticket number
+  notes?: string;
+  raised_at: string;
+  resolved_at?: string;
+}
+
+export type SyncTrigger = 'SCHEDULE' | 'MANUAL';
+export type SyncRunStatus = 'RUNNING' | 'SUCCESS' | 'PARTIAL' | 'FAILED';
+
+// One server-side pull of a user's store, couriers and ad accounts (sync_runs table)
+export interface SyncRun {
+  id?: string;
+  trigger: SyncTrigger;
+  status: SyncRunStatus; // PARTIAL = finished, but at least one source failed
+  started_at: string;
+  finished_at?: string;
+  shopify_orders: number;
+  courier_orders: number;
+  ad_rows: number;
+  full_resync?: boolean; // Ignored the Shopify watermark and re-fetched the whole window
+  errors: string[];
+}
+
+// Where the consignee is relative to the pickup city
+export type ShippingZone = 'SAME_CITY' | 'SAME_ZONE' | 'CROSS_ZONE';
+
+// Contract price for one zone, slabbed by parcel weight
+export interface WeightSlabRate {
+  upto_half_kg: number; // Parcels up to 0.5 kg
+  upto_1kg: number; // Over 0.5 kg, up to 1 kg
+  additional_kg: number; // Each extra kg (or part of one) above 1 kg
+}
+
+export interface CourierRateCard {
+  forward: number; // Flat forward fee, used when no weight slabs are set
+  rto: number;
+  slabs?: Record<ShippingZone, WeightSlabRate>;
+}
+
+// Bulk booking: first matching rule decides the courier for an unbooked order
+export interface BookingRule {
+  id: string;
+  courier: CourierName;
+  cities?: string[]; // Matched after normalizeCity (case, spelling variants); empty = any city
+  min_cod?: number;
+  max_cod?: number;
+  max_weight_kg?: number;
+}
+
+export interface BookingResult {
+  order_id: string;
+  courier: CourierName;
+  success: boolean;
+  tracking_number?: string;
+  error?: string;
+}
+
+// A courier's pickup/drop-off terminal (e.g. Daewoo FastEx locations)
+export interface CourierTerminal {
+  id: string;
+  name: string;
+  city: string;
+}
+
+// One scan/event in a parcel's journey as reported by the courier
+export interface TrackingCheckpoint {
+  status: string; // Courier's raw text, e.g. "Arrived at Lahore Hub"
+  timestamp: string; // ISO
+  location?: string;
+  remarks?: string; // e.g. undelivered reason or receiver name
+}
+
+// Shipper advice on a failed delivery attempt
+export type NdrAction = 'REATTEMPT' | 'RETURN';
+
 export interface TrackingUpdate {
   tracking_number: string;
   status: OrderStatus;
   raw_status_text: string;
   courier_timestamp: string;
+  checkpoints?: TrackingCheckpoint[]; // Full history, newest first
   balance_payable?: number; // Some couriers return the balance for this order
 }
+
+export interface CourierSettlement {
+  tracking_number: string;
+  payment_status: PaymentStatus;
+  settlement_date?: string;
+  settlement_reference?: string;
+}